@@ -0,0 +1,136 @@
+import {isGeneratedGypFile} from './gyp';
+import {parseGypFile} from './parser';
+import {diffLines} from './util';
+
+/**
+ * The number of unchanged lines shown around each change in a diff.
+ */
+const CONTEXT_LINES = 2;
+
+/**
+ * The contents of a GYP file, with targets keyed by name.
+ */
+interface ParsedGypFile {
+  rest: {};
+  targets: Map<string, {}>;
+}
+
+/**
+ * Given the contents of a generated GYP file, return everything except its
+ * targets, and its targets keyed by name. Returns null if the contents can't
+ * be parsed.
+ * @param contents The contents of the GYP file.
+ */
+function parseTargets(contents: string): ParsedGypFile|null {
+  try {
+    const {targets, ...rest} = parseGypFile(contents);
+    const result = new Map<string, {}>();
+    for (const target of targets || []) {
+      result.set(target.target_name, target);
+    }
+    return {rest, targets: result};
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Return a diff between two strings, showing only changed lines and a few
+ * lines of context around them.
+ * @param expected The expected string.
+ * @param actual The actual string.
+ */
+function diffStrings(expected: string, actual: string): string[] {
+  const diff = diffLines(actual.split('\n'), expected.split('\n'));
+  const isChanged = (line: string) => !line.startsWith(' ');
+  const result: string[] = [];
+  diff.forEach((line, i) => {
+    const nearChange =
+        diff.slice(Math.max(0, i - CONTEXT_LINES), i + CONTEXT_LINES + 1)
+            .some(isChanged);
+    if (nearChange) {
+      result.push(line);
+    } else if (result.length > 0 && result[result.length - 1] !== '...') {
+      result.push('...');
+    }
+  });
+  if (result[result.length - 1] === '...') {
+    result.pop();
+  }
+  return result;
+}
+
+/**
+ * Compare a generated GYP file with the one on disk, and return a readable
+ * description of how the file on disk is out of date, grouped by target. The
+ * result is empty if the two are identical.
+ * @param file The name of the GYP file.
+ * @param expected The contents of the generated GYP file.
+ * @param actual The contents of the GYP file on disk, or null if it doesn't
+ * exist.
+ */
+export function diffGypFile(
+    file: string, expected: string, actual: string|null): string[] {
+  if (actual === expected) {
+    return [];
+  }
+  if (actual === null) {
+    return [`${file} doesn't exist`];
+  }
+  const expectedGyp = parseTargets(expected);
+  const actualGyp = parseTargets(actual);
+  if (!expectedGyp || !actualGyp) {
+    // Fall back to comparing whole files.
+    return [
+      `${file} is out of date:`,
+      ...diffStrings(expected, actual).map(line => `  ${line}`)
+    ];
+  }
+  const result = [`${file} is out of date:`];
+  const stringify = (value: {}) => JSON.stringify(value, null, 2);
+  if (stringify(expectedGyp.rest) !== stringify(actualGyp.rest)) {
+    result.push(
+        '  Top-level fields changed:',
+        ...diffStrings(stringify(expectedGyp.rest), stringify(actualGyp.rest))
+            .map(line => `    ${line}`));
+  }
+  const targetNames = [
+    ...Array.from(actualGyp.targets.keys()),
+    ...Array.from(expectedGyp.targets.keys())
+  ].filter((name, i, arr) => arr.indexOf(name) === i);
+  for (const name of targetNames) {
+    const expectedTarget = expectedGyp.targets.get(name);
+    const actualTarget = actualGyp.targets.get(name);
+    if (!actualTarget) {
+      result.push(`  Target ${name} was added`);
+    } else if (!expectedTarget) {
+      result.push(`  Target ${name} was removed`);
+    } else if (stringify(expectedTarget) !== stringify(actualTarget)) {
+      result.push(
+          `  Target ${name} changed:`,
+          ...diffStrings(stringify(expectedTarget), stringify(actualTarget))
+              .map(line => `    ${line}`));
+    }
+  }
+  if (result.length === 1) {
+    // Only formatting or target order differs.
+    result.push(...diffStrings(expected, actual).map(line => `  ${line}`));
+  }
+  return result;
+}
+
+/**
+ * Given the GYP files in the output directory, return the names of those that
+ * were generated, but that would no longer be generated.
+ * @param files The name and contents of each GYP file in the output directory.
+ * @param generatedFiles The names of the GYP files that would be generated.
+ */
+export function findLeftoverGypFiles(
+    files: Array<{file: string, contents: string}>,
+    generatedFiles: string[]): string[] {
+  return files
+      .filter(
+          ({file, contents}) => generatedFiles.indexOf(file) === -1 &&
+              isGeneratedGypFile(contents))
+      .map(({file}) => file);
+}
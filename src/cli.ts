@@ -0,0 +1,275 @@
+import {GnCaptureStrategy} from './gn';
+
+/**
+ * The subcommands understood by the command-line interface.
+ */
+export type Command = 'capture'|'generate'|'verify'|'graph';
+
+const COMMANDS: Command[] = ['capture', 'generate', 'verify', 'graph'];
+
+const CAPTURE_STRATEGIES: GnCaptureStrategy[] =
+    ['auto', 'bulk', 'crawl', 'ide'];
+
+const GRAPH_FORMATS = ['dot', 'json'];
+
+/**
+ * Options that can be passed on the command line.
+ */
+export interface CliOptions {
+  /**
+   * The directory that contains the GN project.
+   */
+  projectDir: string;
+  /**
+   * The builds (directory names under out/) to capture. If not specified, all
+   * builds under out/ are captured.
+   */
+  builds?: string[];
+  /**
+   * How GN targets are described during capture.
+   */
+  captureStrategy: GnCaptureStrategy;
+  /**
+   * The GN target that will be converted, along with its dependencies.
+   */
+  rootTarget?: string;
+  /**
+   * The directory to which GYP files should be written.
+   */
+  outDir: string;
+  /**
+   * The path at which the serialized GN project is cached.
+   */
+  cache: string;
+  /**
+   * The name of a built-in project configuration, used if no configuration
+   * file is given.
+   */
+  preset: string;
+  /**
+   * The path to a project configuration file.
+   */
+  config?: string;
+  /**
+   * Whether the generate command should compare generated files with those in
+   * the output directory instead of writing them.
+   */
+  check: boolean;
+  /**
+   * How generated GYP files are formatted.
+   */
+  gypStyle: 'json'|'python';
+  /**
+   * Whether generated targets are preceded by comments naming the GN targets
+   * they came from (only in the 'python' style).
+   */
+  comments: boolean;
+  /**
+   * The format in which the graph command writes dependency graphs.
+   */
+  graphFormat: 'dot'|'json';
+  /**
+   * The path to the gyp executable.
+   */
+  gyp: string;
+  /**
+   * The GYP file that should be passed to gyp by the verify command.
+   */
+  gypFile?: string;
+  /**
+   * Any arguments after `--`, passed through to gyp verbatim.
+   */
+  gypArgs: string[];
+}
+
+/**
+ * Keys of options whose values are arbitrary strings.
+ */
+type StringOption = {
+  [K in keyof CliOptions] -?: string extends CliOptions[K] ? K : never
+}[keyof CliOptions];
+
+/**
+ * Keys of options that are either set or not.
+ */
+type BooleanOption = {
+  [K in keyof CliOptions] -?: boolean extends CliOptions[K] ? K : never
+}[keyof CliOptions];
+
+/**
+ * The result of parsing command-line arguments.
+ */
+export interface ParsedArgs {
+  command: Command;
+  options: CliOptions;
+}
+
+/**
+ * Help text printed when the command line is malformed.
+ */
+export const USAGE = `Usage: gn-to-gyp <command> [options] [-- gyp args]
+
+Commands:
+  capture     Describe GN builds and write them to the cache file
+  generate    Convert the cached (or freshly captured) GN builds to GYP files
+  verify      Run gyp on a generated GYP file
+  graph       Write the GN dependency graph of each build, and the dependency
+              graph of the generated GYP targets, to the output directory
+
+Options:
+  --project-dir <dir>   Directory containing the GN project (default: cwd)
+  --builds <a,b,...>    Builds under out/ to capture (default: the
+                        configuration's builds, or all)
+  --capture-strategy <auto|bulk|crawl|ide>
+                        Describe all targets in one gn invocation and their
+                        configs one at a time (bulk), everything one at a
+                        time (crawl), or bulk with crawl as a fallback
+                        (default: auto); or read
+                        out/<build>/project.json from gn gen --ide=json (ide)
+  --root-target <label> GN target to convert, e.g. //:libfoo (default: the
+                        configuration's rootTarget)
+  --out-dir <dir>       Directory to write GYP files to (default: cwd)
+  --cache <path>        Path of the captured GN project (default: all.json)
+  --config <path>       Project configuration file (.json or .js)
+  --preset <name>       Built-in configuration to use if --config is not
+                        given (default: default)
+  --graph-format <dot|json>
+                        Format of files written by the graph command
+                        (default: dot)
+  --gyp <path>          Path to the gyp executable (default: gyp)
+  --gyp-file <path>     GYP file passed to gyp by the verify command
+  --gyp-style <json|python>
+                        Format of generated GYP files: JSON, or Python
+                        literals like hand-written GYP files (default: json)
+  --comments            Precede each generated target with a comment naming
+                        the GN target and builds it came from (python style)
+  --check               Don't write GYP files; instead, fail with a diff if
+                        the files in the output directory are out of date,
+                        or if generated files there are no longer generated
+  --help                Print this message
+
+Each GN build becomes a GYP configuration. Sources, actions and dependencies
+that differ across builds can't be placed in GYP configurations, so they're
+selected by the gn_configuration GYP variable instead. It defaults to the
+configuration of the first build by name; to build another configuration, set
+it when running gyp, e.g. gyp -Dgn_configuration=Release, or
+gn-to-gyp verify -- -Dgn_configuration=Release.`;
+
+/**
+ * Options that take a value, mapped to the key under which they're stored.
+ */
+const VALUE_FLAGS: {
+  [flag: string]: StringOption|'builds'|'captureStrategy'|'gypStyle'|
+  'graphFormat'
+} = {
+  '--project-dir': 'projectDir',
+  '--builds': 'builds',
+  '--capture-strategy': 'captureStrategy',
+  '--root-target': 'rootTarget',
+  '--out-dir': 'outDir',
+  '--cache': 'cache',
+  '--preset': 'preset',
+  '--config': 'config',
+  '--graph-format': 'graphFormat',
+  '--gyp-style': 'gypStyle',
+  '--gyp': 'gyp',
+  '--gyp-file': 'gypFile'
+};
+
+/**
+ * Options that don't take a value, mapped to the key that they set to true.
+ */
+const BOOLEAN_FLAGS: {[flag: string]: BooleanOption} = {
+  '--check': 'check',
+  '--comments': 'comments'
+};
+
+/**
+ * Given a list of command-line arguments (excluding the node binary and
+ * script), return the requested command and options, or throw if they are
+ * malformed. Returns null if help was requested.
+ * @param args The command-line arguments.
+ * @param cwd The directory against which default paths are resolved.
+ */
+export function parseArgs(args: string[], cwd: string): ParsedArgs|null {
+  const options: CliOptions = {
+    projectDir: cwd,
+    captureStrategy: 'auto',
+    outDir: cwd,
+    cache: 'all.json',
+    preset: 'default',
+    check: false,
+    gypStyle: 'json',
+    comments: false,
+    graphFormat: 'dot',
+    gyp: 'gyp',
+    gypArgs: []
+  };
+  let command: Command|undefined;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      options.gypArgs = args.slice(i + 1);
+      break;
+    }
+    if (arg === '--help' || arg === '-h') {
+      return null;
+    }
+    if (!arg.startsWith('-')) {
+      if (command) {
+        throw new Error(`Unexpected argument: ${arg}`);
+      }
+      if (COMMANDS.indexOf(arg as Command) === -1) {
+        throw new Error(`Unknown command: ${arg}`);
+      }
+      command = arg as Command;
+      continue;
+    }
+    const booleanKey = BOOLEAN_FLAGS[arg];
+    if (booleanKey) {
+      options[booleanKey] = true;
+      continue;
+    }
+    // Accept both --flag=value and --flag value.
+    const eqIndex = arg.indexOf('=');
+    const flag = eqIndex === -1 ? arg : arg.slice(0, eqIndex);
+    const key = VALUE_FLAGS[flag];
+    if (!key) {
+      throw new Error(`Unknown option: ${flag}`);
+    }
+    let value: string;
+    if (eqIndex !== -1) {
+      value = arg.slice(eqIndex + 1);
+    } else {
+      if (i + 1 === args.length) {
+        throw new Error(`Option ${flag} requires a value`);
+      }
+      value = args[++i];
+    }
+    if (key === 'builds') {
+      options.builds =
+          [...(options.builds || []), ...value.split(',').filter(x => !!x)];
+    } else if (key === 'captureStrategy') {
+      if (CAPTURE_STRATEGIES.indexOf(value as GnCaptureStrategy) === -1) {
+        throw new Error(`Unknown capture strategy: ${value}`);
+      }
+      options.captureStrategy = value as GnCaptureStrategy;
+    } else if (key === 'gypStyle') {
+      if (value !== 'json' && value !== 'python') {
+        throw new Error(`Unknown GYP style: ${value}`);
+      }
+      options.gypStyle = value;
+    } else if (key === 'graphFormat') {
+      if (GRAPH_FORMATS.indexOf(value) === -1) {
+        throw new Error(`Unknown graph format: ${value}`);
+      }
+      options.graphFormat = value as 'dot' | 'json';
+    } else {
+      options[key] = value;
+    }
+  }
+  if (!command) {
+    throw new Error('No command specified');
+  }
+  return {command, options};
+}
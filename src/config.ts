@@ -0,0 +1,651 @@
+import {promises as fs} from 'fs';
+import * as path from 'path';
+
+import {ExcludeTarget, GypProjectOptions, GypProjectSplitOptions, ScriptWrapper, SourceSetStrategy, TargetNamingScheme} from './gyp';
+
+/**
+ * A rule that rewrites a string. Exactly one of `prefix` or `regex` should be
+ * specified.
+ * - If `prefix` is specified, a string that starts with it has the prefix
+ *   replaced with `replacement`.
+ * - If `regex` is specified, a string that matches it is passed through
+ *   String#replace with `replacement`, so `$1`-style references may be used.
+ */
+export interface RewriteRule {
+  prefix?: string;
+  regex?: string;
+  replacement: string;
+}
+
+/**
+ * A rule that describes an argument to an action script.
+ * - `{kind: 'path'}`: The argument is a path relative to the build directory.
+ * - `{kind: 'flag', flag: '--out'}`: The argument is `--out=<path>`, where the
+ *   path is relative to the build directory. If `separator` is given, the
+ *   path follows the last occurrence of it in the value instead, as in
+ *   `--plugin_out=<options>:<path>` with a separator of ':'.
+ * - `{kind: 'literal'}`: The argument is passed through unchanged.
+ * 'path' and 'literal' rules apply to arguments that match `match`, a regular
+ * expression, if it's given. By default, 'path' rules apply to arguments that
+ * don't start with '-', and 'literal' rules apply to every argument.
+ * Paths are converted to paths in <(SHARED_INTERMEDIATE_DIR) if they're in
+ * the build directory, and to paths in <(root_relative_to_gypfile)
+ * otherwise.
+ */
+export type ScriptArgRule = RewriteRule|{
+  kind: 'path'|'literal';
+  match?: string;
+}
+|{
+  kind: 'flag';
+  flag: string;
+  separator?: string;
+};
+
+/**
+ * A declarative description of a GYP subproject (a single output file).
+ */
+export interface SubprojectConfig {
+  /**
+   * The name of the subproject.
+   */
+  name: string;
+  /**
+   * The file name to which the subproject is written.
+   */
+  file: string;
+  /**
+   * GN label patterns for targets that belong to this subproject. `*` matches
+   * any sequence of characters and `?` matches a single character.
+   */
+  targets: string[];
+  /**
+   * GN label patterns for targets that would otherwise match `targets`, but
+   * don't belong to this subproject.
+   */
+  excludeTargets?: string[];
+  /**
+   * Rules applied to GYP paths in all subprojects; the first matching rule
+   * wins.
+   */
+  pathRewrites?: RewriteRule[];
+}
+
+/**
+ * A declarative description of GN targets to leave out of the GYP project. A
+ * target is excluded if it matches any of the criteria, unless it matches
+ * `exceptTargets`.
+ */
+export interface ExcludeConfig {
+  /**
+   * GN label patterns for targets to exclude.
+   */
+  targets?: string[];
+  /**
+   * GN label patterns for targets that shouldn't be excluded, even if they
+   * match other criteria.
+   */
+  exceptTargets?: string[];
+  /**
+   * GN target types (such as 'executable') to exclude.
+   */
+  types?: string[];
+  /**
+   * Whether to exclude targets marked testonly.
+   */
+  testonly?: boolean;
+}
+
+/**
+ * The shape of a project configuration file.
+ */
+export interface GnToGypConfig {
+  /**
+   * The GN target that will be converted. May be overridden on the command
+   * line.
+   */
+  rootTarget?: string;
+  /**
+   * The builds to capture. May be overridden on the command line.
+   */
+  builds?: string[];
+  subprojects: SubprojectConfig[];
+  /**
+   * Rules applied to include paths found in cflags; the first matching rule
+   * wins. Include paths that no rule matches are resolved against the build
+   * directory.
+   */
+  includeRewrites?: RewriteRule[];
+  /**
+   * Rules applied to each argument of an action, keyed by the GN label of the
+   * action's script; the first matching rule wins. Arguments that no rule
+   * matches are resolved against the build directory if they're explicitly
+   * relative paths, and passed through unchanged and reported otherwise.
+   */
+  scriptArgs?: {[script: string]: ScriptArgRule[];};
+  /**
+   * A map of GN build names to GYP configuration names. Sources, actions and
+   * dependencies that differ across builds are taken from the configuration
+   * named by the `gn_configuration` GYP variable, which defaults to that of
+   * the first build by name and may be set with `gyp -Dgn_configuration=...`.
+   */
+  configurations?: {[gnBuild: string]: string;};
+  /**
+   * A map of GN toolchain labels to GYP toolsets ('host' or 'target').
+   * Toolchains that aren't listed are inferred: the default toolchain is
+   * 'target', and one other toolchain is 'host'. Builds with more toolchains
+   * than that must list them.
+   */
+  toolsets?: {[gnToolchain: string]: string;};
+  /**
+   * GN targets to leave out of the GYP project.
+   */
+  exclude?: ExcludeConfig;
+  /**
+   * How GN targets whose GYP target names would collide are renamed: 'hash'
+   * appends a short hash of the label, and 'path' escapes the full label.
+   * Defaults to 'hash'.
+   */
+  targetNaming?: TargetNamingScheme;
+  /**
+   * How GN source sets are translated: 'static_library' makes every source set
+   * a static library, and 'native' makes source sets without compiled sources
+   * targets of type 'none' that forward their include directories. Defaults
+   * to 'static_library'.
+   */
+  sourceSets?: SourceSetStrategy;
+  /**
+   * Commands that run action scripts, keyed by the GN label of the script or
+   * by its extension (such as ".sh"), for example `{".js": ["node"]}`. An
+   * empty command runs the script directly. Python scripts are run with the
+   * `python` GYP variable by default.
+   */
+  interpreters?: {[scriptOrExtension: string]: string[];};
+  /**
+   * Scripts that only run the tool given as their first argument, keyed by GN
+   * label. Actions that run these scripts run the tool directly instead,
+   * dropping the listed flags of the script that precede the tool.
+   */
+  scriptWrappers?: {[script: string]: ScriptWrapper;};
+}
+
+/**
+ * Given a GN label pattern, return an equivalent regular expression.
+ * @param pattern A label pattern, where `*` matches any sequence of characters
+ * and `?` matches a single character.
+ */
+export function labelPatternToRegExp(pattern: string): RegExp {
+  const source = pattern.split('').map(c => {
+    if (c === '*') {
+      return '.*';
+    } else if (c === '?') {
+      return '.';
+    }
+    return c.replace(/[\\^$.+()|[\]{}]/, '\\$&');
+  });
+  return new RegExp(`^${source.join('')}$`);
+}
+
+/**
+ * Return the result of applying a rewrite rule to the given string, or null if
+ * the rule doesn't match it.
+ * @param rule The rule to apply.
+ * @param value The string to rewrite.
+ */
+function applyRewriteRule(rule: RewriteRule, value: string): string|null {
+  if (rule.prefix !== undefined) {
+    if (value.startsWith(rule.prefix)) {
+      return `${rule.replacement}${value.slice(rule.prefix.length)}`;
+    }
+  } else {
+    const regex = new RegExp(rule.regex!);
+    if (regex.test(value)) {
+      return value.replace(regex, rule.replacement);
+    }
+  }
+  return null;
+}
+
+/**
+ * Given a list of rewrite rules, return the result of applying the first one
+ * that matches the given string, or null if no rule matches.
+ * @param rules The rules to try.
+ * @param value The string to rewrite.
+ */
+function matchRewriteRules(rules: RewriteRule[], value: string): string|null {
+  for (const rule of rules) {
+    const result = applyRewriteRule(rule, value);
+    if (result !== null) {
+      return result;
+    }
+  }
+  return null;
+}
+
+/**
+ * Given a list of rewrite rules, return the result of applying the first one
+ * that matches the given string, or the string itself if no rule matches.
+ * @param rules The rules to try.
+ * @param value The string to rewrite.
+ */
+export function applyRewriteRules(rules: RewriteRule[], value: string): string {
+  const result = matchRewriteRules(rules, value);
+  return result !== null ? result : value;
+}
+
+/**
+ * Given a list of script argument rules, return the result of applying the
+ * first one that matches the given argument, or null if no rule matches.
+ * @param rules The rules to try.
+ * @param arg The argument to rewrite.
+ * @param gypifyBuildPath A function that converts a path relative to the
+ * build directory to a GYP path.
+ */
+export function applyScriptArgRules(
+    rules: ScriptArgRule[], arg: string,
+    gypifyBuildPath: (path: string) => string): string|null {
+  for (const rule of rules) {
+    if (!('kind' in rule)) {
+      const result = applyRewriteRule(rule, arg);
+      if (result !== null) {
+        return result;
+      }
+    } else if (rule.kind === 'flag') {
+      const prefix = `${rule.flag}=`;
+      if (!arg.startsWith(prefix)) {
+        continue;
+      }
+      const value = arg.slice(prefix.length);
+      if (rule.separator === undefined) {
+        return `${prefix}${gypifyBuildPath(value)}`;
+      }
+      const index = value.lastIndexOf(rule.separator);
+      if (index !== -1) {
+        const pathIndex = index + rule.separator.length;
+        return `${prefix}${value.slice(0, pathIndex)}${
+            gypifyBuildPath(value.slice(pathIndex))}`;
+      }
+    } else {
+      const match = rule.match !== undefined ?
+          new RegExp(rule.match) :
+          rule.kind === 'path' ? /^[^-]/ : /^/;
+      if (match.test(arg)) {
+        return rule.kind === 'path' ? gypifyBuildPath(arg) : arg;
+      }
+    }
+  }
+  return null;
+}
+
+// tslint:disable:no-any
+/**
+ * A helper class that validates an untyped object as a GnToGypConfig, keeping
+ * track of where in the object errors occur.
+ */
+class ConfigValidator {
+  constructor(private readonly source: string) {}
+
+  private fail(location: string, message: string): never {
+    throw new Error(`Invalid config ${this.source}: ${location} ${message}`);
+  }
+
+  private isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private checkKeys(location: string, value: any, allowed: string[]) {
+    for (const key of Object.keys(value)) {
+      if (allowed.indexOf(key) === -1) {
+        this.fail(location, `has unknown field "${key}"`);
+      }
+    }
+  }
+
+  private checkString(location: string, value: any): string {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(location, 'must be a non-empty string');
+    }
+    return value;
+  }
+
+  private checkStringArray(location: string, value: any): string[] {
+    if (!Array.isArray(value)) {
+      return this.fail(location, 'must be an array of strings');
+    }
+    value.forEach((e, i) => this.checkString(`${location}[${i}]`, e));
+    return value as string[];
+  }
+
+  private checkLabelPatterns(location: string, value: any): string[] {
+    const patterns = this.checkStringArray(location, value);
+    patterns.forEach((pattern, i) => {
+      if (!pattern.startsWith('//')) {
+        this.fail(`${location}[${i}]`, `("${pattern}") must start with //`);
+      }
+    });
+    return patterns;
+  }
+
+  private checkRegExp(location: string, value: any) {
+    this.checkString(location, value);
+    try {
+      // tslint:disable-next-line:no-unused-expression
+      new RegExp(value);
+    } catch (e) {
+      this.fail(location, `is not valid: ${e.message}`);
+    }
+  }
+
+  private checkScriptArgRules(location: string, value: any): ScriptArgRule[] {
+    if (!Array.isArray(value)) {
+      return this.fail(location, 'must be an array of script argument rules');
+    }
+    return value.map((rule, i) => {
+      const ruleLocation = `${location}[${i}]`;
+      if (!this.isObject(rule) || rule.kind === undefined) {
+        return this.checkRewriteRule(ruleLocation, rule);
+      }
+      if (rule.kind === 'flag') {
+        this.checkKeys(ruleLocation, rule, ['kind', 'flag', 'separator']);
+        this.checkString(`${ruleLocation}.flag`, rule.flag);
+        if (rule.separator !== undefined) {
+          this.checkString(`${ruleLocation}.separator`, rule.separator);
+        }
+      } else if (rule.kind === 'path' || rule.kind === 'literal') {
+        this.checkKeys(ruleLocation, rule, ['kind', 'match']);
+        if (rule.match !== undefined) {
+          this.checkRegExp(`${ruleLocation}.match`, rule.match);
+        }
+      } else {
+        this.fail(
+            `${ruleLocation}.kind`, 'must be "path", "flag" or "literal"');
+      }
+      return rule;
+    });
+  }
+
+  private checkRewriteRules(location: string, value: any): RewriteRule[] {
+    if (!Array.isArray(value)) {
+      return this.fail(location, 'must be an array of rewrite rules');
+    }
+    return value.map(
+        (rule, i) => this.checkRewriteRule(`${location}[${i}]`, rule));
+  }
+
+  private checkRewriteRule(ruleLocation: string, rule: any): RewriteRule {
+    if (!this.isObject(rule)) {
+      return this.fail(ruleLocation, 'must be an object');
+    }
+    this.checkKeys(ruleLocation, rule, ['prefix', 'regex', 'replacement']);
+    if ((rule.prefix === undefined) === (rule.regex === undefined)) {
+      this.fail(ruleLocation, 'must have exactly one of "prefix" or "regex"');
+    }
+    if (rule.prefix !== undefined) {
+      this.checkString(`${ruleLocation}.prefix`, rule.prefix);
+    } else {
+      this.checkRegExp(`${ruleLocation}.regex`, rule.regex);
+    }
+    if (typeof rule.replacement !== 'string') {
+      this.fail(`${ruleLocation}.replacement`, 'must be a string');
+    }
+    return rule;
+  }
+
+  private checkSubproject(location: string, value: any): SubprojectConfig {
+    if (!this.isObject(value)) {
+      return this.fail(location, 'must be an object');
+    }
+    this.checkKeys(
+        location, value,
+        ['name', 'file', 'targets', 'excludeTargets', 'pathRewrites']);
+    this.checkString(`${location}.name`, value.name);
+    this.checkString(`${location}.file`, value.file);
+    this.checkLabelPatterns(`${location}.targets`, value.targets);
+    if (value.excludeTargets !== undefined) {
+      this.checkLabelPatterns(
+          `${location}.excludeTargets`, value.excludeTargets);
+    }
+    if (value.pathRewrites !== undefined) {
+      this.checkRewriteRules(`${location}.pathRewrites`, value.pathRewrites);
+    }
+    return value;
+  }
+
+  private checkExclude(location: string, value: any): ExcludeConfig {
+    if (!this.isObject(value)) {
+      return this.fail(location, 'must be an object');
+    }
+    this.checkKeys(
+        location, value, ['targets', 'exceptTargets', 'types', 'testonly']);
+    if (value.targets !== undefined) {
+      this.checkLabelPatterns(`${location}.targets`, value.targets);
+    }
+    if (value.exceptTargets !== undefined) {
+      this.checkLabelPatterns(`${location}.exceptTargets`, value.exceptTargets);
+    }
+    if (value.types !== undefined) {
+      this.checkStringArray(`${location}.types`, value.types);
+    }
+    if (value.testonly !== undefined && typeof value.testonly !== 'boolean') {
+      this.fail(`${location}.testonly`, 'must be a boolean');
+    }
+    return value;
+  }
+
+  /**
+   * Return the given value as a GnToGypConfig, or throw an error describing
+   * the first problem found with it.
+   * @param value The value to validate.
+   */
+  validate(value: any): GnToGypConfig {
+    if (!this.isObject(value)) {
+      return this.fail('top level', 'must be an object');
+    }
+    this.checkKeys('top level', value, [
+      'rootTarget', 'builds', 'subprojects', 'includeRewrites', 'scriptArgs',
+      'configurations', 'toolsets', 'exclude', 'targetNaming', 'sourceSets',
+      'interpreters', 'scriptWrappers'
+    ]);
+    if (value.rootTarget !== undefined) {
+      this.checkString('rootTarget', value.rootTarget);
+    }
+    if (value.builds !== undefined) {
+      this.checkStringArray('builds', value.builds);
+    }
+    if (!Array.isArray(value.subprojects) || value.subprojects.length === 0) {
+      this.fail('subprojects', 'must be a non-empty array');
+    }
+    const subprojects =
+        (value.subprojects as any[])
+            .map((s, i) => this.checkSubproject(`subprojects[${i}]`, s));
+    subprojects.forEach((subproject, i) => {
+      if (subprojects.findIndex(s => s.name === subproject.name) !== i) {
+        this.fail(
+            `subprojects[${i}].name`, `("${subproject.name}") is not unique`);
+      }
+      if (subprojects.findIndex(s => s.file === subproject.file) !== i) {
+        this.fail(
+            `subprojects[${i}].file`, `("${subproject.file}") is not unique`);
+      }
+    });
+    if (value.includeRewrites !== undefined) {
+      this.checkRewriteRules('includeRewrites', value.includeRewrites);
+    }
+    if (value.scriptArgs !== undefined) {
+      const scriptArgs = value.scriptArgs;
+      if (!this.isObject(scriptArgs)) {
+        return this.fail('scriptArgs', 'must be an object');
+      }
+      for (const script of Object.keys(scriptArgs)) {
+        this.checkScriptArgRules(`scriptArgs["${script}"]`, scriptArgs[script]);
+      }
+    }
+    if (value.configurations !== undefined) {
+      const configurations = value.configurations;
+      if (!this.isObject(configurations)) {
+        return this.fail('configurations', 'must be an object');
+      }
+      for (const build of Object.keys(configurations)) {
+        this.checkString(`configurations["${build}"]`, configurations[build]);
+      }
+    }
+    if (value.toolsets !== undefined) {
+      const toolsets = value.toolsets;
+      if (!this.isObject(toolsets)) {
+        return this.fail('toolsets', 'must be an object');
+      }
+      for (const toolchain of Object.keys(toolsets)) {
+        if (toolsets[toolchain] !== 'host' &&
+            toolsets[toolchain] !== 'target') {
+          this.fail(`toolsets["${toolchain}"]`, 'must be "host" or "target"');
+        }
+      }
+    }
+    if (value.exclude !== undefined) {
+      this.checkExclude('exclude', value.exclude);
+    }
+    if (value.targetNaming !== undefined && value.targetNaming !== 'hash' &&
+        value.targetNaming !== 'path') {
+      this.fail('targetNaming', 'must be "hash" or "path"');
+    }
+    if (value.sourceSets !== undefined &&
+        value.sourceSets !== 'static_library' &&
+        value.sourceSets !== 'native') {
+      this.fail('sourceSets', 'must be "static_library" or "native"');
+    }
+    if (value.interpreters !== undefined) {
+      const interpreters = value.interpreters;
+      if (!this.isObject(interpreters)) {
+        return this.fail('interpreters', 'must be an object');
+      }
+      for (const key of Object.keys(interpreters)) {
+        if (!key.startsWith('//') && !key.startsWith('.')) {
+          this.fail(
+              `interpreters["${key}"]`,
+              'must be keyed by a GN label or an extension');
+        }
+        this.checkStringArray(`interpreters["${key}"]`, interpreters[key]);
+      }
+    }
+    if (value.scriptWrappers !== undefined) {
+      const scriptWrappers = value.scriptWrappers;
+      if (!this.isObject(scriptWrappers)) {
+        return this.fail('scriptWrappers', 'must be an object');
+      }
+      for (const script of Object.keys(scriptWrappers)) {
+        const location = `scriptWrappers["${script}"]`;
+        const scriptWrapper = scriptWrappers[script];
+        if (!this.isObject(scriptWrapper)) {
+          return this.fail(location, 'must be an object');
+        }
+        this.checkKeys(location, scriptWrapper, ['flags']);
+        if (scriptWrapper.flags !== undefined) {
+          this.checkStringArray(`${location}.flags`, scriptWrapper.flags);
+        }
+      }
+    }
+    return value;
+  }
+}
+
+/**
+ * Return the given value as a GnToGypConfig, or throw if it isn't one.
+ * @param value The value to validate.
+ * @param source A description of where the value came from, used in error
+ * messages.
+ */
+export function validateConfig(value: any, source: string): GnToGypConfig {
+  return new ConfigValidator(source).validate(value);
+}
+// tslint:enable:no-any
+
+/**
+ * Load and validate a configuration file. JSON files are parsed as-is; any
+ * other file is loaded as a module whose export is the configuration.
+ * @param configPath The path to the configuration file.
+ */
+export async function loadConfig(configPath: string): Promise<GnToGypConfig> {
+  const resolvedPath = path.resolve(configPath);
+  let value;
+  if (resolvedPath.endsWith('.json')) {
+    const contents = await fs.readFile(resolvedPath, 'utf8');
+    try {
+      value = JSON.parse(contents);
+    } catch (e) {
+      throw new Error(`Invalid config ${configPath}: ${e.message}`);
+    }
+  } else {
+    value = require(resolvedPath);
+  }
+  return validateConfig(value, configPath);
+}
+
+/**
+ * Convert an exclusion configuration into a function that returns whether a
+ * GN target should be excluded.
+ * @param exclude The exclusion configuration.
+ */
+function toExcludeTarget(exclude: ExcludeConfig): ExcludeTarget {
+  const targets = (exclude.targets || []).map(labelPatternToRegExp);
+  const exceptTargets = (exclude.exceptTargets || []).map(labelPatternToRegExp);
+  const types = exclude.types || [];
+  return (gnTargetName, gnTarget) => {
+    if (exceptTargets.some(regex => regex.test(gnTargetName))) {
+      return false;
+    }
+    return targets.some(regex => regex.test(gnTargetName)) ||
+        (!!gnTarget.type && types.indexOf(gnTarget.type) !== -1) ||
+        (!!exclude.testonly && !!gnTarget.testonly);
+  };
+}
+
+/**
+ * Convert a configuration into options understood by GypProject.
+ * @param config The configuration.
+ * @param gnRootTargetName The root target, which takes precedence over the
+ * one in the configuration.
+ */
+export function toGypProjectOptions(
+    config: GnToGypConfig, gnRootTargetName?: string): GypProjectOptions {
+  gnRootTargetName = gnRootTargetName || config.rootTarget;
+  if (!gnRootTargetName) {
+    throw new Error(
+        'No root target specified in either the config or the command line');
+  }
+  const includeRewrites = config.includeRewrites;
+  const scriptArgs = config.scriptArgs;
+  return {
+    correctPathsForScriptArgs:
+        scriptArgs && ((script, args, gypifyBuildPath) => {
+          const rules = scriptArgs[script] || [];
+          return args.map(
+              arg => applyScriptArgRules(rules, arg, gypifyBuildPath));
+        }),
+    correctPathForCFlagInclude: includeRewrites &&
+        (include => matchRewriteRules(includeRewrites, include)),
+    gnRootTargetName,
+    configurations: config.configurations,
+    toolsets: config.toolsets,
+    excludeTarget: config.exclude && toExcludeTarget(config.exclude),
+    targetNaming: config.targetNaming,
+    sourceSets: config.sourceSets,
+    interpreters: config.interpreters,
+    scriptWrappers: config.scriptWrappers,
+    subprojects: config.subprojects.map(
+        (subproject):
+            GypProjectSplitOptions => {
+              const targets = subproject.targets.map(labelPatternToRegExp);
+              const excludeTargets =
+                  (subproject.excludeTargets || []).map(labelPatternToRegExp);
+              const pathRewrites = subproject.pathRewrites || [];
+              return {
+                name: subproject.name,
+                file: subproject.file,
+                predicate: (gnTargetName) =>
+                    targets.some(regex => regex.test(gnTargetName)) &&
+                    !excludeTargets.some(regex => regex.test(gnTargetName)),
+                setNewPath: (path) => applyRewriteRules(pathRewrites, path)
+              };
+            })
+  };
+}
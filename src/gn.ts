@@ -1,8 +1,9 @@
-import {deserializeMap, flatten, pool, removeDuplicates, serializeMap} from './util';
-
-import execa = require('execa');
+import * as crypto from 'crypto';
 import {promises as fs} from 'fs';
 
+import {ExecaGnRunner, GnRunner} from './runner';
+import {compareStrings, deserializeMap, flatten, removeDuplicates, serializeMap} from './util';
+
 /**
  * A string assumed to always exist in a project as the top-level target name.
  */
@@ -18,17 +19,26 @@ export interface GnTarget {
   all_dependent_configs?: string[];
   deps: string[];
   type?: string;
+  testonly?: boolean;
   toolchain: string;
   include_dirs?: string[];
   defines?: string[];
   sources?: string[];
   inputs?: string[];
   outputs?: string[];
+  output_patterns?: string[];
   args?: string[];
   script?: string;
   libs?: string[];
+  lib_dirs?: string[];
+  ldflags?: string[];
+  frameworks?: string[];
   cflags?: string[];
+  cflags_c?: string[];
   cflags_cc?: string[];
+  cflags_objc?: string[];
+  cflags_objcc?: string[];
+  asmflags?: string[];
 }
 
 /**
@@ -38,6 +48,14 @@ interface GnDescription {
   [target: string]: GnTarget;
 }
 
+/**
+ * The shape of a project.json file written by `gn gen --ide=json`.
+ */
+interface GnIdeJson {
+  build_settings: {default_toolchain: string;};
+  targets: GnDescription;
+}
+
 /**
  * Components in a GN target name.
  */
@@ -62,6 +80,277 @@ export function parseGnTargetName(targetName: string): ParsedGnTargetName {
   return {path: file, target, toolchain};
 }
 
+/**
+ * How targets in a build are described.
+ * - 'bulk': Describe all targets with a single `gn desc` invocation, and then
+ * the configs they use.
+ * - 'crawl': Describe targets one at a time, starting from TARGET_ALL and
+ * following dependencies and configs.
+ * - 'auto': Try 'bulk', and fall back to 'crawl' if it fails.
+ * - 'ide': Read out/<build>/project.json, written by `gn gen --ide=json`,
+ * without running `gn desc`.
+ */
+export type GnCaptureStrategy = 'auto'|'bulk'|'crawl'|'ide';
+
+/**
+ * Statistics about how a single build was described.
+ */
+export interface GnCaptureStats {
+  build: string;
+  strategy: 'bulk'|'crawl'|'ide';
+  invocations: number;
+  targets: number;
+  milliseconds: number;
+}
+
+/**
+ * Options for GnProject.fromDirectory.
+ */
+export interface GnCaptureOptions {
+  /**
+   * How targets should be described. Defaults to 'auto'.
+   */
+  strategy?: GnCaptureStrategy;
+  /**
+   * Called once per build after its targets have been described.
+   */
+  onStats?: (stats: GnCaptureStats) => void;
+  /**
+   * How gn is queried. Defaults to running the gn executable on the PATH.
+   */
+  runner?: GnRunner;
+}
+
+/**
+ * The targets of a single build, along with how they were described.
+ */
+interface GnCapture {
+  targets: GnDescription;
+  strategy: 'bulk'|'crawl';
+  invocations: number;
+}
+
+/**
+ * Given a target description, return the labels of the targets it depends on.
+ * @param target The target description.
+ */
+function getReferencedTargets(target: GnTarget): string[] {
+  return [...target.deps || [], ...target.public_deps || []];
+}
+
+/**
+ * Given a target description, return the labels of the configs it uses.
+ * @param targetName The label of the described target.
+ * @param target The target description.
+ */
+function getReferencedConfigs(targetName: string, target: GnTarget): string[] {
+  // Configs are listed without a toolchain, even when the target that uses
+  // them has one.
+  const {toolchain} = parseGnTargetName(targetName);
+  const mapConfigStrings =
+      !!toolchain ? (x: string) => `${x}(${toolchain})` : (x: string) => x;
+  return [
+    ...target.configs || [], ...target.public_configs || [],
+    ...target.all_dependent_configs || []
+  ].map(mapConfigStrings);
+}
+
+/**
+ * Given a target description, return the labels of the targets and configs it
+ * refers to.
+ * @param targetName The label of the described target.
+ * @param target The target description.
+ */
+function getReferencedLabels(targetName: string, target: GnTarget): string[] {
+  return [
+    ...getReferencedTargets(target), ...getReferencedConfigs(targetName, target)
+  ];
+}
+
+/**
+ * Describe every target in a build with a single call to `gn desc`, returning
+ * the targets and configs that are reachable from TARGET_ALL. `gn desc` only
+ * matches targets against patterns, so the configs that they use are described
+ * afterwards, one call each. Throws if gn fails, or if its output is missing a
+ * reachable target.
+ * @param projectDir The directory that contains the GN project.
+ * @param build The build to describe.
+ * @param runner The runner used to query gn.
+ */
+async function describeAllTargets(
+    projectDir: string, build: string, runner: GnRunner): Promise<GnCapture> {
+  const output = await runner.describeTargets(projectDir, build, '//*');
+  const desc: GnDescription = JSON.parse(output);
+  // Keep only what the crawler would have found, so that both strategies
+  // produce the same result.
+  const targets: GnDescription = {};
+  const described = new Set<string>();
+  let configs: string[] = [];
+  const queue = [TARGET_ALL];
+  while (queue.length > 0) {
+    const targetName = queue.shift()!;
+    if (described.has(targetName)) {
+      continue;
+    }
+    if (!desc[targetName]) {
+      throw new Error(
+          `gn desc output for out/${build} is missing ${targetName}`);
+    }
+    described.add(targetName);
+    targets[targetName] = desc[targetName];
+    queue.push(...getReferencedTargets(desc[targetName]));
+    configs.push(...getReferencedConfigs(targetName, desc[targetName]));
+  }
+  // Describe configs a batch at a time, since configs can use other configs.
+  let invocations = 1;
+  while (configs.length > 0) {
+    const batch: string[] = configs.filter(config => !described.has(config))
+                                .reduce(removeDuplicates, [] as string[]);
+    batch.forEach(config => described.add(config));
+    const configDescs = await Promise.all(batch.map(async (config) => {
+      const configDesc: GnDescription =
+          JSON.parse(await runner.describeTargets(projectDir, build, config));
+      if (Object.keys(configDesc).length !== 1) {
+        throw new Error(`gn desc returned an object with more than one key`);
+      }
+      return configDesc;
+    }));
+    invocations += batch.length;
+    configs = [];
+    configDescs.forEach((configDesc, i) => {
+      Object.assign(targets, configDesc);
+      configs.push(...getReferencedConfigs(
+          batch[i], configDesc[Object.keys(configDesc)[0]]));
+    });
+  }
+  return {targets: sortDescription(targets), strategy: 'bulk', invocations};
+}
+
+/**
+ * Describe the targets in a build one at a time, starting from TARGET_ALL and
+ * following dependencies and configs.
+ * @param projectDir The directory that contains the GN project.
+ * @param build The build to describe.
+ * @param runner The runner used to query gn.
+ */
+async function crawlTargets(
+    projectDir: string, build: string, runner: GnRunner): Promise<GnCapture> {
+  // A map containing all targets.
+  const knownTargets: Map<string, Promise<GnDescription>> = new Map();
+  // Helper function -- get the `gn desc` for a single target and
+  // dependencies, populating knownTargets, which also doubles as a cache.
+  const getSingleTarget = async(targetName: string): Promise<GnDescription> => {
+    // Don't do any extra processing if we've already seen the target
+    // before.
+    if (knownTargets.has(targetName)) {
+      return knownTargets.get(targetName)!;
+    }
+    const desc = (async () => {
+      // The actual call to `gn desc`.
+      const output =
+          await runner.describeTargets(projectDir, build, targetName);
+      const desc: GnDescription = JSON.parse(output);
+      return desc;
+    })();
+    // Save the pending target description into the cache.
+    // We save the pending description instead of the resolve one so that
+    // we don't do redundant async work.
+    knownTargets.set(targetName, desc);
+    // Wait until all dependents have been resolved.
+    const awaitedDesc = await desc;
+    if (Object.keys(awaitedDesc).length !== 1) {
+      throw new Error(`gn desc returned an object with more than one key`);
+    }
+    const resolvedTarget = awaitedDesc[Object.keys(awaitedDesc)[0]];
+    await Promise.all(
+        getReferencedLabels(targetName, resolvedTarget).map(getSingleTarget));
+    return desc;
+  };
+  // Call the above mentioned helper function for the top-level target,
+  // assumed to be TARGET_ALL.
+  await getSingleTarget(TARGET_ALL);
+  // In practice all pending promises in knownTargets should have been
+  // resolved in the previous call -- the await here should be near-
+  // immediate.
+  const allTargets = await Promise.all(Array.from(knownTargets.values()));
+  // allTargets looks like [{ a: x }, { b: y }] (and might be in any
+  // order.
+  // Merge these objects together so we get something like { a: x, b: y }.
+  const targets: GnDescription = allTargets.reduce((acc, next) => {
+    return Object.assign(acc, next);
+  }, {});
+  return {
+    targets: sortDescription(targets),
+    strategy: 'crawl',
+    invocations: knownTargets.size
+  };
+}
+
+/**
+ * Return a copy of a `gn desc` output with its keys in sorted order.
+ * @param desc The `gn desc` output.
+ */
+function sortDescription(desc: GnDescription): GnDescription {
+  const result: GnDescription = {};
+  for (const key of Object.keys(desc).sort((a, b) => compareStrings(a, b))) {
+    result[key] = desc[key];
+  }
+  return result;
+}
+
+/**
+ * Return the output of `gn --version`, or 'unknown' if gn can't be run.
+ * @param runner The runner used to query gn.
+ */
+async function getGnVersion(runner: GnRunner): Promise<string> {
+  try {
+    return (await runner.version()).trim();
+  } catch (e) {
+    return 'unknown';
+  }
+}
+
+/**
+ * Return a string that changes whenever the given build would be described
+ * differently: when gn itself, args.gn, or any BUILD.gn or .gni file read by
+ * `gn gen` changes. The files read are those listed in build.ninja.d.
+ * @param projectDir The directory that contains the GN project.
+ * @param build The build to fingerprint.
+ * @param gnVersion The output of `gn --version`.
+ */
+async function getBuildFingerprint(
+    projectDir: string, build: string, gnVersion: string): Promise<string> {
+  const buildDir = `${projectDir}/out/${build}`;
+  const hashFile = async(file: string): Promise<string> => {
+    try {
+      return crypto.createHash('sha256')
+          .update(await fs.readFile(file))
+          .digest('hex');
+    } catch (e) {
+      return 'missing';
+    }
+  };
+  let inputs: string[] = [];
+  try {
+    const depfile = await fs.readFile(`${buildDir}/build.ninja.d`, 'utf8');
+    inputs = depfile.slice(depfile.indexOf(':') + 1)
+                 .split(/\s+/)
+                 .filter(input => !!input)
+                 .sort();
+  } catch (e) {
+    // gn gen hasn't been run, so only args.gn can be checked.
+  }
+  const fingerprint = {
+    gnVersion,
+    args: await hashFile(`${buildDir}/args.gn`),
+    inputs: await Promise.all(inputs.map(
+        async input => [input, await hashFile(`${buildDir}/${input}`)]))
+  };
+  return crypto.createHash('sha256')
+      .update(JSON.stringify(fingerprint))
+      .digest('hex');
+}
+
 /**
  * A class that represents the collection of targets in a single build (out/*).
  */
@@ -69,6 +358,7 @@ export class GnBuild {
   private targets = new Map<string, GnTarget>();
   private toolchains: string[] = [];
   private defaultToolchain = '';
+  private fingerprint = '';
 
   private constructor() {}
 
@@ -91,6 +381,17 @@ export class GnBuild {
     return result;
   }
 
+  /**
+   * Return whether a target with the given toolchain and name exists.
+   * @param toolchain The toolchain with which the target will be built.
+   * @param targetName The target name.
+   */
+  hasTarget(toolchain: string, targetName: string): boolean {
+    return this.targets.has(
+        toolchain === this.defaultToolchain ? targetName :
+                                              `${targetName}(${toolchain})`);
+  }
+
   /**
    * Get a list of all target names.
    * TODO(kjin): YAGNI (verify this).
@@ -103,7 +404,7 @@ export class GnBuild {
    * Get a list of all toolchains.
    */
   getToolchains(): string[] {
-    return this.toolchains;
+    return this.toolchains.slice().sort();
   }
 
   /**
@@ -114,16 +415,38 @@ export class GnBuild {
     return this.defaultToolchain;
   }
 
+  /**
+   * Get a string that identifies the inputs from which this build was
+   * described, or an empty string if they weren't recorded.
+   */
+  getFingerprint(): string {
+    return this.fingerprint;
+  }
+
   /**
    * Create an instance of this class from a string.
    * @param json The string from which to deserialize.
    */
   static deserialize(json: string): GnBuild {
     const result = new GnBuild();
+    const obj = JSON.parse(json);
+    // Older serialized builds contain only a map of targets, whose keys are
+    // always labels.
+    let defaultToolchain: string|undefined;
+    if (obj.targets) {
+      defaultToolchain = obj.defaultToolchain;
+      result.fingerprint = obj.fingerprint || '';
+      json = JSON.stringify(obj.targets);
+    }
     result.targets =
         deserializeMap(json, k => k, v => JSON.parse(v) as GnTarget);
-    result.toolchains =
-        Array.from(result.targets.values()).map(target => target.toolchain).reduce(removeDuplicates, [] as string[]);
+    result.toolchains = Array.from(result.targets.values())
+                            .map(target => target.toolchain)
+                            .reduce(removeDuplicates, [] as string[]);
+    if (defaultToolchain) {
+      result.defaultToolchain = defaultToolchain;
+      return result;
+    }
     // Assume that TARGET_ALL is always built with target toolchain.
     if (!result.targets.has(TARGET_ALL)) {
       throw new Error(`GnBuild has no ${TARGET_ALL} target`);
@@ -132,12 +455,46 @@ export class GnBuild {
     return result;
   }
 
+  /**
+   * Create an instance of this class from the contents of a project.json file
+   * written by `gn gen --ide=json`. The platforms that toolchains build for
+   * aren't recorded in this file, and are left unknown.
+   * @param json The contents of the project.json file.
+   * @param fingerprint A string that identifies the inputs to the build.
+   */
+  static fromIdeJson(json: string, fingerprint = ''): GnBuild {
+    const obj: GnIdeJson = JSON.parse(json);
+    if (!obj.build_settings || !obj.targets) {
+      throw new Error('Not a project.json file written by gn gen --ide=json');
+    }
+    const result = new GnBuild();
+    for (const targetName of Object.keys(obj.targets)) {
+      const target = obj.targets[targetName];
+      result.targets.set(targetName, Object.assign({deps: []}, target));
+    }
+    result.defaultToolchain = obj.build_settings.default_toolchain;
+    result.fingerprint = fingerprint;
+    // Newer versions of gn also list toolchains that no target uses, which
+    // are left out, as they would be by GnBuild.deserialize.
+    result.toolchains = Array.from(result.targets.values())
+                            .map(target => target.toolchain)
+                            .reduce(removeDuplicates, [] as string[]);
+    return result;
+  }
+
   /**
    * Create a string from an instance of this class.
    * @param gnBuild The instance to serialize.
    */
   static serialize(gnBuild: GnBuild): string {
-    return serializeMap(gnBuild.targets, k => k, v => JSON.stringify(v));
+    return JSON.stringify(
+        {
+          targets: JSON.parse(
+              serializeMap(gnBuild.targets, k => k, v => JSON.stringify(v))),
+          defaultToolchain: gnBuild.defaultToolchain,
+          fingerprint: gnBuild.fingerprint
+        },
+        null, 2);
   }
 }
 
@@ -153,7 +510,7 @@ export class GnProject {
    * Get a list of all builds.
    */
   getBuildNames(): string[] {
-    return Array.from(this.builds.keys());
+    return Array.from(this.builds.keys()).sort();
   }
 
   /**
@@ -204,78 +561,53 @@ export class GnProject {
    * @param builds A list of builds to process. Builds typically correspond to
    * directory names in the out/ directory. Omit or pass a falsy value to
    * search out/ for builds to process.
+   * @param options Options that control how targets are described.
    */
-  static async fromDirectory(projectDir: string, builds?: string[]):
-      Promise<GnProject> {
+  static async fromDirectory(
+      projectDir: string, builds?: string[],
+      options?: GnCaptureOptions): Promise<GnProject> {
     // If no builds provided, search the out/ directory.
     if (!builds) {
       builds = await fs.readdir(`${projectDir}/out`);
     }
-    const pooledExecaStdout = pool(execa.stdout, 8);
+    const strategy = (options && options.strategy) || 'auto';
+    if (strategy === 'ide') {
+      return GnProject.fromIdeJson(projectDir, builds, options);
+    }
+    const runner = (options && options.runner) || new ExecaGnRunner();
     // Get descriptions for all builds in parallel.
+    const gnVersion = await getGnVersion(runner);
     const gnDescs = await Promise.all(builds.map(async (build) => {
-      // A map containing all targets.
-      const knownTargets: Map<string, Promise<GnDescription>> = new Map();
-      // Helper function -- get the `gn desc` for a single target and
-      // dependencies, populating knownTargets, which also doubles as a cache.
-      const getSingleTarget =
-          async(targetName: string): Promise<GnDescription> => {
-        // Don't do any extra processing if we've already seen the target
-        // before.
-        if (knownTargets.has(targetName)) {
-          return knownTargets.get(targetName)!;
+      const startTime = Date.now();
+      // Fingerprint before describing, so that edits made in the meantime
+      // cause the build to be described again next time.
+      const fingerprint =
+          await getBuildFingerprint(projectDir, build, gnVersion);
+      let capture: GnCapture|undefined;
+      if (strategy !== 'crawl') {
+        try {
+          capture = await describeAllTargets(projectDir, build, runner);
+        } catch (e) {
+          if (strategy === 'bulk') {
+            throw e;
+          }
+          // Fall back to describing targets one at a time.
         }
-        const desc = (async () => {
-          // The actual call to `gn desc`.
-          const output = await (pooledExecaStdout as typeof execa.stdout)(
-              'gn',
-              [
-                'desc', `out/${build}`, targetName, '--all-toolchains',
-                '--format=json'
-              ],
-              {cwd: projectDir});
-          const desc: GnDescription = JSON.parse(output);
-          return desc;
-        })();
-        // Save the pending target description into the cache.
-        // We save the pending description instead of the resolve one so that
-        // we don't do redundant async work.
-        knownTargets.set(targetName, desc);
-        // Wait until all dependents have been resolved.
-        const awaitedDesc = await desc;
-        if (Object.keys(awaitedDesc).length !== 1) {
-          throw new Error(`gn desc returned an object with more than one key`);
-        }
-        const resolvedTarget = awaitedDesc[Object.keys(awaitedDesc)[0]];
-        const {toolchain} = parseGnTargetName(targetName);
-        const mapConfigStrings = !!toolchain ?
-            (x: string) => `${x}(${toolchain})` :
-            (x: string) => x;
-        await Promise.all([
-          ...resolvedTarget.deps || [], ...resolvedTarget.public_deps || [],
-          ...[...resolvedTarget.configs || [],
-              ...resolvedTarget.public_configs || [],
-              ...resolvedTarget.all_dependent_configs || []]
-              .map(mapConfigStrings)
-        ].map(getSingleTarget));
-        return desc;
-      };
-      // Call the above mentioned helper function for the top-level target,
-      // assumed to be TARGET_ALL.
-      await getSingleTarget(TARGET_ALL);
-      // In practice all pending promises in knownTargets should have been
-      // resolved in the previous call -- the await here should be near-
-      // immediate.
-      const allTargets = await Promise.all(Array.from(knownTargets.values()));
-      // allTargets looks like [{ a: x }, { b: y }] (and might be in any
-      // order.
-      // Sort and merge these objects together so we get something like
-      // { a: x, b: y }.
-      return allTargets
-          .sort((a, b) => Object.keys(a)[0].localeCompare(Object.keys(b)[0]))
-          .reduce((acc, next) => {
-            return Object.assign(acc, next);
-          }, {});
+      }
+      if (!capture) {
+        capture = await crawlTargets(projectDir, build, runner);
+      }
+      const targets = capture.targets;
+      if (options && options.onStats) {
+        options.onStats({
+          build,
+          strategy: capture.strategy,
+          invocations: capture.invocations,
+          targets: Object.keys(targets).length,
+          milliseconds: Date.now() - startTime
+        });
+      }
+      return {targets, fingerprint};
     }));
     // All builds have been described.
     const result = new GnProject();
@@ -285,4 +617,81 @@ export class GnProject {
     }
     return result;
   }
+
+  /**
+   * Create an instance of this class from the project.json files written by
+   * `gn gen --ide=json`, without running `gn desc`. gn is only asked for its
+   * version, so that builds are fingerprinted as GnProject.update expects.
+   * @param projectDir The directory that contains the GN project.
+   * @param builds A list of builds to process. Omit or pass a falsy value to
+   * search out/ for builds to process.
+   * @param options Options; only onStats and runner are used.
+   */
+  static async fromIdeJson(
+      projectDir: string, builds?: string[],
+      options?: GnCaptureOptions): Promise<GnProject> {
+    if (!builds) {
+      builds = await fs.readdir(`${projectDir}/out`);
+    }
+    const gnVersion =
+        await getGnVersion((options && options.runner) || new ExecaGnRunner());
+    const result = new GnProject();
+    for (const build of builds) {
+      const startTime = Date.now();
+      const fingerprint =
+          await getBuildFingerprint(projectDir, build, gnVersion);
+      const gnBuild = GnBuild.fromIdeJson(
+          await fs.readFile(`${projectDir}/out/${build}/project.json`, 'utf8'),
+          fingerprint);
+      result.builds.set(build, gnBuild);
+      if (options && options.onStats) {
+        options.onStats({
+          build,
+          strategy: 'ide',
+          invocations: 0,
+          targets: gnBuild.getTargetNames().length,
+          milliseconds: Date.now() - startTime
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Given a previously captured GN project, return a project with exactly the
+   * requested builds, describing again only those builds that are missing or
+   * whose inputs have changed since they were captured.
+   * @param gnProject The previously captured project.
+   * @param projectDir The directory that contains the GN project.
+   * @param builds A list of builds to process. Omit or pass a falsy value to
+   * search out/ for builds to process.
+   * @param options Options that control how targets are described.
+   */
+  static async update(
+      gnProject: GnProject, projectDir: string, builds?: string[],
+      options?: GnCaptureOptions): Promise<GnProject> {
+    if (!builds) {
+      builds = await fs.readdir(`${projectDir}/out`);
+    }
+    const gnVersion =
+        await getGnVersion((options && options.runner) || new ExecaGnRunner());
+    const staleBuilds: string[] = [];
+    for (const build of builds) {
+      const fingerprint =
+          await getBuildFingerprint(projectDir, build, gnVersion);
+      if (!gnProject.builds.has(build) ||
+          gnProject.builds.get(build)!.getFingerprint() !== fingerprint) {
+        staleBuilds.push(build);
+      }
+    }
+    const recaptured = staleBuilds.length > 0 ?
+        await GnProject.fromDirectory(projectDir, staleBuilds, options) :
+        new GnProject();
+    const result = new GnProject();
+    for (const build of builds) {
+      result.builds.set(
+          build, recaptured.builds.get(build) || gnProject.builds.get(build)!);
+    }
+    return result;
+  }
 }
@@ -0,0 +1,122 @@
+import {compareStrings} from './util';
+
+/**
+ * A node in a dependency graph.
+ */
+export interface GraphNode {
+  /**
+   * A string that uniquely identifies this node within its graph.
+   */
+  id: string;
+  label: string;
+  /**
+   * The name of the group that this node is drawn in, if any.
+   */
+  cluster?: string;
+  /**
+   * Whether this is a proxy target, created to stand in for a GN target's
+   * output.
+   */
+  proxy?: boolean;
+  /**
+   * Whether this target was excluded from conversion. Edges to excluded nodes
+   * were cut.
+   */
+  excluded?: boolean;
+}
+
+/**
+ * A dependency graph, in which an edge points from a target to one of its
+ * dependencies.
+ */
+export interface Graph {
+  name: string;
+  nodes: GraphNode[];
+  edges: Array<{from: string, to: string}>;
+}
+
+/**
+ * Return a copy of a graph with nodes and edges in a stable order, and with
+ * duplicate edges removed.
+ * @param graph The graph to sort.
+ */
+function sortGraph(graph: Graph): Graph {
+  const edges = graph.edges.map(edge => JSON.stringify([edge.from, edge.to]))
+                    .filter((edge, i, arr) => arr.indexOf(edge) === i)
+                    .sort()
+                    .map(edge => JSON.parse(edge))
+                    .map(([from, to]) => ({from, to}));
+  return {
+    name: graph.name,
+    nodes: graph.nodes.slice().sort((a, b) => compareStrings(a.id, b.id)),
+    edges
+  };
+}
+
+/**
+ * Convert a graph to the DOT language, for rendering with Graphviz. Nodes that
+ * share a cluster are grouped together, proxy targets are filled, and excluded
+ * targets (and edges to them) are dashed.
+ * @param graph The graph to convert.
+ */
+export function toDot(graph: Graph): string {
+  const {nodes, edges} = sortGraph(graph);
+  // DOT strings are escaped the same way as JSON strings.
+  const quote = (str: string) => JSON.stringify(str);
+  const nodeToDot = (node: GraphNode) => {
+    const attributes = [`label=${quote(node.label)}`];
+    if (node.proxy) {
+      attributes.push('style=filled', 'fillcolor=lightyellow');
+    }
+    if (node.excluded) {
+      attributes.push('style=dashed', 'color=gray');
+    }
+    return `${quote(node.id)} [${attributes.join(', ')}];`;
+  };
+  const lines = [`digraph ${quote(graph.name)} {`, '  node [shape=box];'];
+  const clusters: string[] =
+      nodes.map(node => node.cluster || '')
+          .filter((cluster, i, arr) => arr.indexOf(cluster) === i);
+  for (const cluster of clusters) {
+    const clusterNodes = nodes.filter(node => (node.cluster || '') === cluster);
+    if (!cluster) {
+      lines.push(...clusterNodes.map(node => `  ${nodeToDot(node)}`));
+      continue;
+    }
+    lines.push(
+        `  subgraph ${quote(`cluster_${cluster}`)} {`,
+        `    label=${quote(cluster)};`,
+        ...clusterNodes.map(node => `    ${nodeToDot(node)}`), '  }');
+  }
+  const excluded = nodes.filter(node => node.excluded).map(node => node.id);
+  for (const {from, to} of edges) {
+    const attributes = excluded.indexOf(to) !== -1 ? ' [style=dashed]' : '';
+    lines.push(`  ${quote(from)} -> ${quote(to)}${attributes};`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Convert a graph to JSON, with node attributes keyed by node ID, and an
+ * adjacency list from each node ID to the IDs of its dependencies.
+ * @param graph The graph to convert.
+ */
+export function toJson(graph: Graph): string {
+  const {nodes, edges} = sortGraph(graph);
+  const result: {
+    name: string,
+    nodes: {[id: string]: {}},
+    adjacency: {[id: string]: string[]}
+  } = {name: graph.name, nodes: {}, adjacency: {}};
+  for (const node of nodes) {
+    const attributes = Object.assign({}, node);
+    delete attributes.id;
+    result.nodes[node.id] = attributes;
+    result.adjacency[node.id] = [];
+  }
+  for (const {from, to} of edges) {
+    result.adjacency[from].push(to);
+  }
+  return `${JSON.stringify(result, null, 2)}\n`;
+}
@@ -1,49 +1,178 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+
 import {GnProject, GnTarget, parseGnTargetName} from './gn';
-import {arrayEquals, flatten, getOnlyMappedValue, removeDuplicates} from './util';
+import {Graph, GraphNode} from './graph';
+import {formatGypFile} from './printer';
+import {compareStrings, flatten, getOnlyMappedValue, removeDuplicates} from './util';
 
 /**
  * A message to place at the top of a generated GYP file.
  */
 const GEN_MSG = 'This file is automatically generated -- do not edit!';
 
+/**
+ * Returns whether the contents of a GYP file were generated by GypProject.
+ * @param contents The contents of the GYP file.
+ */
+export function isGeneratedGypFile(contents: string): boolean {
+  return contents.startsWith(`# ${GEN_MSG}\n`);
+}
+
+/**
+ * The GYP variable that selects which GYP configuration's sources, actions and
+ * dependencies are used, for fields that GYP doesn't allow in `configurations`.
+ * It defaults to the configuration of the first GN build by name, and can be
+ * set when running gyp, as in `gyp -Dgn_configuration=Release`.
+ */
+const CONFIGURATION_VARIABLE = 'gn_configuration';
+
+/**
+ * Fields that may appear in a GYP `configurations` entry.
+ */
+const CONFIGURATION_FIELDS = [
+  'defines', 'include_dirs', 'cflags', 'cflags_c', 'cflags_cc', 'cflags_objc',
+  'cflags_objcc', 'xcode_settings'
+];
+
+/**
+ * Fields whose values are settings applied to dependent targets.
+ */
+const DEPENDENT_SETTINGS_FIELDS =
+    ['direct_dependent_settings', 'all_dependent_settings'];
+
+/**
+ * Fields whose values are order-dependent lists (such as flags that take
+ * arguments, or search paths), and so must be kept whole when values differ
+ * across configurations.
+ */
+const ORDERED_FIELDS = [
+  'cflags', 'cflags_c', 'cflags_cc', 'cflags_objc', 'cflags_objcc',
+  'include_dirs', 'ldflags'
+];
+
+/**
+ * GN compiler flag fields, each of which has a GYP field of the same name.
+ */
+const CFLAGS_FIELDS: Array<keyof GnTarget&keyof GypFields> =
+    ['cflags', 'cflags_c', 'cflags_cc', 'cflags_objc', 'cflags_objcc'];
+
+/**
+ * GN fields that describe how sources are compiled, which GN configs may set.
+ */
+const COMPILER_SETTINGS_FIELDS: Array<keyof GnTarget&keyof GypFields> =
+    ['include_dirs', 'defines', ...CFLAGS_FIELDS];
+
 /**
  * An object that describes a GYP build action.
  */
-interface GypAction {
+export interface GypAction {
   action_name: string;
   inputs: string[];
   outputs: string[];
   action: string[];
 }
 
+/**
+ * An object that describes a GYP build rule, which is applied to each source
+ * in a target with a matching extension.
+ */
+export interface GypRule {
+  rule_name: string;
+  extension: string;
+  inputs: string[];
+  outputs: string[];
+  action: string[];
+}
+
+/**
+ * An object that describes files that a GYP target copies into a directory,
+ * keeping their names.
+ */
+export interface GypCopy {
+  destination: string;
+  files: string[];
+}
+
+/**
+ * An object that describes how targets that link against a GYP target should
+ * be linked. GYP propagates these settings from static libraries to the
+ * targets that link them.
+ */
+export interface GypLinkSettings {
+  libraries?: string[];
+  library_dirs?: string[];
+  ldflags?: string[];
+  xcode_settings?: {OTHER_LDFLAGS?: string[];};
+}
+
+/**
+ * Compiler settings read by GYP generators that target Xcode toolchains, which
+ * ignore the top-level cflags fields.
+ */
+export interface GypXcodeSettings {
+  OTHER_CFLAGS?: string[];
+  OTHER_CPLUSPLUSFLAGS?: string[];
+}
+
 /**
  * An object that describes common fields on a GYP target that may have
  * conditional values.
  */
-interface GypFields {
+export interface GypFields {
   toolsets?: string[];
+  product_name?: string;
   include_dirs?: string[];
   dependencies?: string[];
   defines?: string[];
   sources?: string[];
   actions?: GypAction[];
-  link_settings?: {libraries?: string[];};
+  rules?: GypRule[];
+  copies?: GypCopy[];
+  link_settings?: GypLinkSettings;
   cflags?: string[];
+  cflags_c?: string[];
   cflags_cc?: string[];
+  cflags_objc?: string[];
+  cflags_objcc?: string[];
+  xcode_settings?: GypXcodeSettings;
   hard_dependency?: string;
+  export_dependent_settings?: string[];
   direct_dependent_settings?: GypFields;
   all_dependent_settings?: GypFields;
+  configurations?: {[configuration: string]: GypFields};
+  conditions?: Array<[string, GypFields]>;
+}
+
+/**
+ * A dependency edge between two GN targets in the same build.
+ */
+interface GnDependency {
+  from: GnTargetBuildConfig;
+  to: GnTargetBuildConfig;
 }
 
 /**
  * A GYP target.
  */
-interface GypTarget extends GypFields {
+export interface GypTarget extends GypFields {
   target_name: string;
   type: string;
   target_conditions?: Array<[string, GypFields]>;
 }
 
+/**
+ * The contents of a GYP file.
+ */
+export interface GypFile {
+  // tslint:disable-next-line:no-any
+  variables?: {[variable: string]: any};
+  includes?: string[];
+  target_defaults?: GypFields;
+  targets?: GypTarget[];
+  conditions?: Array<[string, GypFile]>;
+}
+
 /**
  * The minimal information needed to get a unique GN build target given a
  * GN project.
@@ -54,6 +183,87 @@ interface GnTargetBuildConfig {
   toolchain: string;
 }
 
+/**
+ * Given GYP target fragments that differ only by the GN build from which they
+ * were created, return a single target with fields common to all builds
+ * hoisted to the top level. Differing fields are placed under `configurations`
+ * where GYP allows it, and under `conditions` on CONFIGURATION_VARIABLE
+ * otherwise.
+ * @param fragments A map of GYP configuration names to target fragments.
+ */
+function mergeConfigurations<T extends GypFields>(fragments: Map<string, T>):
+    T {
+  const configurations = Array.from(fragments.keys());
+  const values = Array.from(fragments.values());
+  if (values.length === 1) {
+    return Object.assign({}, values[0]);
+  }
+  // tslint:disable:no-any
+  const result: any = {};
+  const perConfiguration: any[] = configurations.map(() => ({}));
+  const keys: string[] = values.map(value => Object.keys(value))
+                             .reduce(flatten, [] as string[])
+                             .reduce(removeDuplicates, [] as string[]);
+  for (const key of keys) {
+    const fieldValues = values.map(value => (value as any)[key]);
+    const serializedValues = fieldValues.map(v => JSON.stringify(v));
+    if (serializedValues.every(v => v === serializedValues[0])) {
+      result[key] = fieldValues[0];
+    } else if (DEPENDENT_SETTINGS_FIELDS.indexOf(key) !== -1) {
+      // Settings are merged recursively, so that they end up under
+      // `configurations` too.
+      result[key] = mergeConfigurations(new Map(configurations.map(
+          (configuration,
+           i) => [configuration,
+                  fieldValues[i] || {}] as [string, GypFields])));
+    } else if (
+        ORDERED_FIELDS.indexOf(key) === -1 &&
+        fieldValues.every(v => v === undefined || Array.isArray(v))) {
+      // Hoist elements that are present in every configuration.
+      const serializedElements = fieldValues.map(
+          v => (v as Array<{}>|| []).map(e => JSON.stringify(e)));
+      const common = serializedElements[0].filter(
+          e =>
+              serializedElements.every(elements => elements.indexOf(e) !== -1));
+      result[key] = common.map(e => JSON.parse(e));
+      serializedElements.forEach((elements, i) => {
+        const rest = elements.filter(e => common.indexOf(e) === -1);
+        if (rest.length > 0) {
+          perConfiguration[i][key] = rest.map(e => JSON.parse(e));
+        }
+      });
+    } else {
+      fieldValues.forEach((v, i) => {
+        if (v !== undefined) {
+          perConfiguration[i][key] = v;
+        }
+      });
+    }
+  }
+  configurations.forEach((configuration, i) => {
+    const configurationFields: any = {};
+    const conditionalFields: any = {};
+    for (const key of Object.keys(perConfiguration[i])) {
+      if (CONFIGURATION_FIELDS.indexOf(key) !== -1) {
+        configurationFields[key] = perConfiguration[i][key];
+      } else {
+        conditionalFields[key] = perConfiguration[i][key];
+      }
+    }
+    if (Object.keys(configurationFields).length > 0) {
+      result.configurations = result.configurations || {};
+      result.configurations[configuration] = configurationFields;
+    }
+    if (Object.keys(conditionalFields).length > 0) {
+      result.conditions = result.conditions || [];
+      result.conditions.push(
+          [`${CONFIGURATION_VARIABLE}=="${configuration}"`, conditionalFields]);
+    }
+  });
+  // tslint:enable:no-any
+  return result;
+}
+
 /**
  * A helper class that is used to build GYP targets. Each GypTargetBuilder
  * corresponds uniquely to a GN target name (sans toolchain); it combines all
@@ -61,19 +271,22 @@ interface GnTargetBuildConfig {
  */
 class GypTargetBuilder {
   private readonly targetFragments =
-      new Map<string, GypTarget&{outputs?: string[]}>();
+      new Map<string, Map<string, GypTarget&{outputs?: string[]}>>();
 
   private targetName = '';
   private targetType = '';
 
   /**
-   * Add a GYP target "fragments" for a single GN toolchain/GYP toolset.
+   * Add a GYP target "fragments" for a single GN toolchain/GYP toolset and
+   * GN build/GYP configuration.
    * @param fragment The GYP target to add.
+   * @param configuration The GYP configuration to which the fragment applies.
    * @param outputs Outputs specified by the GN target, already converted into
    * GYP-friendly paths. This is only required if the fragment type is set to
    * 'executable'.
    */
-  addTargetFragment(fragment: GypTarget, outputs?: string[]) {
+  addTargetFragment(
+      fragment: GypTarget, configuration: string, outputs?: string[]) {
     // Check pre-conditions.
     if (!fragment.toolsets || fragment.toolsets.length !== 1) {
       throw new Error(`Target ${
@@ -84,14 +297,47 @@ class GypTargetBuilder {
       throw new Error(`Individual toolchain config ${toolchain} for target ${
           fragment.target_name} shouldn't have its own target conditions`);
     }
+    if (!this.targetFragments.has(toolchain)) {
+      this.targetFragments.set(toolchain, new Map());
+    }
+    const fragmentsForToolchain = this.targetFragments.get(toolchain)!;
+    if (fragmentsForToolchain.has(configuration)) {
+      throw new Error(`Target ${fragment.target_name} already has a ${
+          toolchain} fragment for configuration ${configuration}`);
+    }
     // Save the target fragment.
-    this.targetFragments.set(toolchain, Object.assign({outputs}, fragment));
+    fragmentsForToolchain.set(
+        configuration, Object.assign({outputs}, fragment));
     // These lines implicitly verify that the target name and type match
     // previously added fragments.
-    this.targetName = getOnlyMappedValue(
-        Array.from(this.targetFragments.values()), x => x.target_name);
-    this.targetType = getOnlyMappedValue(
-        Array.from(this.targetFragments.values()), x => x.type);
+    const allFragments = Array.from(this.targetFragments.values())
+                             .map(fragments => Array.from(fragments.values()))
+                             .reduce(flatten, [] as GypTarget[]);
+    this.targetName = getOnlyMappedValue(allFragments, x => x.target_name);
+    this.targetType = getOnlyMappedValue(allFragments, x => x.type);
+  }
+
+  /**
+   * Get a single fragment for the given toolset, by merging fragments for
+   * each configuration.
+   * @param toolset The GYP toolset.
+   */
+  private getToolsetFragment(toolset: string): GypTarget&{outputs?: string[]} {
+    const fragments = this.targetFragments.get(toolset)!;
+    const outputs =
+        Array.from(fragments.values()).map(fragment => fragment.outputs);
+    if (outputs.some(x => JSON.stringify(x) !== JSON.stringify(outputs[0]))) {
+      throw new Error(`${this.targetName} for ${
+          toolset} toolchain has different outputs for different configurations`);
+    }
+    const fragmentsWithoutOutputs = new Map<string, GypTarget>();
+    for (const [configuration, fragment] of Array.from(fragments.entries())) {
+      const fragmentWithoutOutputs = Object.assign({}, fragment);
+      delete fragmentWithoutOutputs.outputs;
+      fragmentsWithoutOutputs.set(configuration, fragmentWithoutOutputs);
+    }
+    return Object.assign(
+        {outputs: outputs[0]}, mergeConfigurations(fragmentsWithoutOutputs));
   }
 
   /**
@@ -101,51 +347,81 @@ class GypTargetBuilder {
    */
   buildTarget(): GypTarget {
     const builds = Array.from(this.targetFragments.keys());
+    const toolsetFragments = new Map(builds.map(
+        build => [build, this.getToolsetFragment(build)] as
+                     [string, GypTarget & {outputs?: string[]}]));
     let result:
         GypTarget = {target_name: this.targetName, type: this.targetType};
     result.toolsets = builds;
     if (builds.length === 1) {
-      result = Object.assign({}, this.targetFragments.get(builds[0])!, result);
+      result = Object.assign({}, toolsetFragments.get(builds[0])!, result);
       // tslint:disable-next-line:no-any
       delete (result as any).outputs;
     } else {
-      const deps: string[] = [];
-      {
-        let depsSet = false;
-        builds.forEach(build => {
-          const toolchainAgnosticDeps =
-              (this.targetFragments.get(build)!.dependencies ||
-               []).map(dependency => {
-                const sameBuildSuffix = `#${build}`;
-                if (!dependency.endsWith(sameBuildSuffix)) {
-                  throw new Error(`${this.targetName} for ${
-                      build} toolchain has a non-${build} dependency`);
-                }
-                return dependency.slice(
-                    0, dependency.length - sameBuildSuffix.length);
-              });
-          if (!depsSet) {
-            deps.push(...toolchainAgnosticDeps);
-          } else {
-            if (!arrayEquals(deps, toolchainAgnosticDeps)) {
-              throw new Error(`${
-                  this.targetName} has different dependencies for different toolchains`);
-            }
-          }
-          depsSet = true;
-        });
-      }
+      // Dependencies that differ across configurations are lifted out of
+      // target_conditions too, with a condition on both the toolset and the
+      // configuration.
+      const configurationDeps: Array<[string, GypFields]> = [];
       result.target_conditions = builds.map(build => {
-        const targetForBuild =
-            Object.assign({}, this.targetFragments.get(build)!);
+        const targetForBuild = Object.assign({}, toolsetFragments.get(build)!);
         delete targetForBuild.target_name;
         delete targetForBuild.type;
         delete targetForBuild.toolsets;
         delete targetForBuild.dependencies;
         delete targetForBuild.outputs;
+        if (targetForBuild.conditions) {
+          targetForBuild.conditions =
+              targetForBuild.conditions
+                  .map(([condition, fields]) => {
+                    const fieldsWithoutDeps = Object.assign({}, fields);
+                    if (fields.dependencies) {
+                      configurationDeps.push([
+                        `_toolset=="${build}" and ${condition}`,
+                        {dependencies: fields.dependencies}
+                      ]);
+                      delete fieldsWithoutDeps.dependencies;
+                    }
+                    return [
+                      condition, fieldsWithoutDeps
+                    ] as [string, GypFields];
+                  })
+                  .filter(([_, fields]) => Object.keys(fields).length > 0);
+          if (targetForBuild.conditions.length === 0) {
+            delete targetForBuild.conditions;
+          }
+        }
         return [`_toolset=="${build}"`, targetForBuild] as [string, GypFields];
       });
+      // Dependencies on targets in the same toolset are written without a
+      // toolset, so that those common to every toolset can be hoisted.
+      const toolsetDeps = builds.map(
+          build => (toolsetFragments.get(build)!.dependencies ||
+                    []).map(dependency => {
+            const sameBuildSuffix = `#${build}`;
+            return dependency.endsWith(sameBuildSuffix) ?
+                dependency.slice(
+                    0, dependency.length - sameBuildSuffix.length) :
+                dependency;
+          }));
+      const deps = toolsetDeps[0].filter(
+          dependency =>
+              toolsetDeps.every(others => others.indexOf(dependency) !== -1));
       result.dependencies = deps;
+      // Other dependencies, including those on targets in other toolsets, are
+      // placed under conditions rather than target_conditions, because gyp
+      // needs to know every dependency before it evaluates target_conditions.
+      builds.forEach((build, i) => {
+        const rest = toolsetDeps[i].filter(
+            dependency => deps.indexOf(dependency) === -1);
+        if (rest.length > 0) {
+          result.conditions = result.conditions || [];
+          result.conditions.push(
+              [`_toolset=="${build}"`, {dependencies: rest}]);
+        }
+      });
+      if (configurationDeps.length > 0) {
+        result.conditions = [...result.conditions || [], ...configurationDeps];
+      }
     }
     return result;
   }
@@ -158,25 +434,33 @@ class GypTargetBuilder {
   private buildProxyForExecutableTarget(mainTarget: GypTarget): GypTarget {
     mainTarget.target_name = `${this.targetName}_proxy`;
     const builds = Array.from(this.targetFragments.keys());
-    const actionsForBuilds: GypFields[] = builds.map(build => {
-      const outputs = this.targetFragments.get(build)!.outputs;
+    const outputsForBuilds = builds.map(build => {
+      const outputs = this.getToolsetFragment(build).outputs;
       if (!outputs || outputs.length !== 1) {
         throw new Error(
             `${this.targetName} as an executable should have just one output`);
       }
-      return {
-        actions: [{
-          action_name: `copy_as_expected_output`,
-          action: [
-            'cp',
-            '<@(_inputs)',
-            '<@(_outputs)',
-          ],
-          inputs: [`<@(PRODUCT_DIR)/${this.targetName}_proxy`],
-          outputs: [outputs[0]]
-        }]
-      };
+      return outputs[0];
     });
+    const productNames =
+        outputsForBuilds.map(output => path.posix.basename(output));
+    // Naming the executable after its output lets it be copied as-is.
+    if (productNames.every(name => name === productNames[0])) {
+      mainTarget.product_name = productNames[0];
+    } else {
+      // Names differ only across toolsets, each of which has its own
+      // conditional fields, in the same order.
+      mainTarget.target_conditions!.forEach(([_, fields], i) => {
+        fields.product_name = productNames[i];
+      });
+    }
+    const fieldsForBuilds: GypFields[] =
+        outputsForBuilds.map((output, i) => ({
+                               copies: [{
+                                 destination: path.posix.dirname(output),
+                                 files: [`<(PRODUCT_DIR)/${productNames[i]}`]
+                               }]
+                             }));
     const result: GypTarget = {
       target_name: this.targetName,
       type: 'none',
@@ -184,11 +468,11 @@ class GypTargetBuilder {
       toolsets: builds
     };
     if (builds.length === 1) {
-      Object.assign(result, actionsForBuilds[0]);
+      Object.assign(result, fieldsForBuilds[0]);
     } else {
-      result.target_conditions = actionsForBuilds.map((actionForBuild, i) => {
+      result.target_conditions = fieldsForBuilds.map((fieldsForBuild, i) => {
         return [
-          `_toolset=="${builds[i]}"`, actionForBuild
+          `_toolset=="${builds[i]}"`, fieldsForBuild
         ] as [string, GypFields];
       });
     }
@@ -226,24 +510,30 @@ class GypTargetBuilder {
       throw new Error('No targets were specified');
     }
     const mainTarget = this.buildTarget();
+    let proxyTarget: GypTarget;
     if (this.targetType === 'executable') {
-      const proxyTarget = this.buildProxyForExecutableTarget(mainTarget);
-      return [mainTarget, proxyTarget];
+      proxyTarget = this.buildProxyForExecutableTarget(mainTarget);
     } else if (this.targetType === 'static_library') {
       mainTarget.target_name = `${this.targetName}_proxy`;
-      const proxyTarget = this.buildProxyForStaticLibraryTarget(mainTarget);
-      return [mainTarget, proxyTarget];
+      proxyTarget = this.buildProxyForStaticLibraryTarget(mainTarget);
       // mainTarget.hard_dependency = 'True';
       // return [mainTarget];
     } else {
       return [mainTarget];
     }
+    // Dependents depend on the facade target, so the true target's settings
+    // for its direct dependents only reach them if the facade exports them.
+    if (getFieldsByToolsets(mainTarget, mainTarget.toolsets || [])
+            .some(({fields}) => !!fields.direct_dependent_settings)) {
+      proxyTarget.export_dependent_settings = [mainTarget.target_name];
+    }
+    return [mainTarget, proxyTarget];
   }
 }
 
 /**
  * Given a GN target name, create a reasonable GYP target name.
- * TODO(kjin): There isn't necessarily a 1:1 guarantee.
+ * There isn't necessarily a 1:1 guarantee; see getUniqueGypTargetNames.
  * @param gnTargetName The GN target name to convert.
  */
 function gypifyTargetName(gnTargetName: string): string {
@@ -261,6 +551,78 @@ function gypifyTargetName(gnTargetName: string): string {
   return gnTargetName;
 }
 
+/**
+ * How GYP target names are chosen for GN targets whose names would otherwise
+ * collide.
+ * - 'hash': Append a short hash of the GN target name.
+ * - 'path': Escape the full GN target name, so that no information is lost.
+ */
+export type TargetNamingScheme = 'hash'|'path';
+
+/**
+ * Given a GN target name whose GYP target name collides with another, return
+ * a GYP target name that doesn't.
+ * @param gnTargetName The GN target name, without a toolchain.
+ * @param scheme How the name should be disambiguated.
+ */
+function disambiguateTargetName(
+    gnTargetName: string, scheme: TargetNamingScheme): string {
+  if (scheme === 'hash') {
+    const hash = crypto.createHash('sha1').update(gnTargetName).digest('hex');
+    return `${gypifyTargetName(gnTargetName)}_${hash.slice(0, 8)}`;
+  }
+  const escapes:
+      {[c: string]: string} = {'_': '__', '/': '_s', ':': '_c', '+': '_p'};
+  return gnTargetName.slice(2).replace(/[_/:+]/g, c => escapes[c]);
+}
+
+/**
+ * Given the GN targets in a project, return a map from each GN target name to
+ * a GYP target name that is unique across the project. Names produced by
+ * gypifyTargetName are kept unless they, or the names of proxy targets derived
+ * from them, collide; all targets involved in a collision are renamed.
+ * @param gnTargetNames GN target names, without toolchains.
+ * @param hasProxy Whether a GN target will have a '_proxy' target.
+ * @param scheme How colliding names are disambiguated.
+ */
+function getUniqueGypTargetNames(
+    gnTargetNames: string[], hasProxy: (gnTargetName: string) => boolean,
+    scheme: TargetNamingScheme): Map<string, string> {
+  const getClaimedNames = (gnTargetName: string, gypTargetName: string) =>
+      hasProxy(gnTargetName) ? [gypTargetName, `${gypTargetName}_proxy`] :
+                               [gypTargetName];
+  // Sort so that the result doesn't depend on the order of traversal.
+  const sortedGnTargetNames = gnTargetNames.slice().sort();
+  const claimants = new Map<string, string[]>();
+  for (const gnTargetName of sortedGnTargetNames) {
+    for (const name of getClaimedNames(
+             gnTargetName, gypifyTargetName(gnTargetName))) {
+      claimants.set(name, [...claimants.get(name) || [], gnTargetName]);
+    }
+  }
+  const colliding: string[] =
+      Array.from(claimants.values())
+          .filter(gnTargetNames => gnTargetNames.length > 1)
+          .reduce(flatten, [] as string[]);
+  const result = new Map<string, string>();
+  const claimed = new Map<string, string>();
+  for (const gnTargetName of sortedGnTargetNames) {
+    const gypTargetName = colliding.indexOf(gnTargetName) !== -1 ?
+        disambiguateTargetName(gnTargetName, scheme) :
+        gypifyTargetName(gnTargetName);
+    // A disambiguated name could still be taken, if only in principle.
+    for (const name of getClaimedNames(gnTargetName, gypTargetName)) {
+      if (claimed.has(name)) {
+        throw new Error(`GN targets ${claimed.get(name)} and ${
+            gnTargetName} both map to the GYP target name ${name}`);
+      }
+      claimed.set(name, gnTargetName);
+    }
+    result.set(gnTargetName, gypTargetName);
+  }
+  return result;
+}
+
 /**
  * Given a GN target type, return a corresponding GYP target type.
  * @param gnType The GN type.
@@ -285,6 +647,45 @@ function gypifyTargetType(gnType: string): string {
   }
 }
 
+/**
+ * How GN source sets are translated.
+ * - 'static_library': Every source set becomes a static library. Static
+ * libraries without a .cc file are given an empty one.
+ * - 'native': Source sets without compiled sources become targets of type
+ * 'none', whose include directories are given to their dependents. Other
+ * source sets become static libraries, which are left as-is if they have any
+ * compiled sources (C, C++, Objective-C or assembly).
+ */
+export type SourceSetStrategy = 'static_library'|'native';
+
+/**
+ * Returns whether a source file is compiled, rather than being a header or
+ * another kind of file.
+ * @param source The path of the source file.
+ */
+function isCompiledSource(source: string): boolean {
+  return !!source.match(/\.(c|cc|cpp|cxx|m|mm|s|S|asm)$/);
+}
+
+/**
+ * Given the GN targets built from a single GN target name in each build and
+ * toolchain, return the type of the GYP target they become.
+ * @param gnTargets The GN targets.
+ * @param sourceSets How GN source sets are translated.
+ */
+function toGypTargetType(
+    gnTargets: GnTarget[], sourceSets?: SourceSetStrategy): string {
+  const gnType = gnTargets[0].type || '';
+  // The type can't depend on the build, so a source set is only left
+  // uncompiled if it has no compiled sources in any build.
+  if (gnType === 'source_set' && sourceSets === 'native' &&
+      !gnTargets.some(
+          gnTarget => (gnTarget.sources || []).some(isCompiledSource))) {
+    return 'none';
+  }
+  return gypifyTargetType(gnType);
+}
+
 /**
  * Given a GN path (and build name -- to translate generated file paths), return
  * a GYP path.
@@ -303,43 +704,268 @@ function gypifyPath(gnBuildName: string, gnPath: string): string {
 }
 
 /**
- * Given a list of C flags, extract the include directories.
+ * Given a path relative to the build directory (out/<build>), as found in
+ * flags and script arguments, return the equivalent GN path: either `//...` or
+ * `//out/<build>/...`. Returns null if the path is outside of the project
+ * directory, since it has no GN path.
+ * @param gnBuildName The GN build name.
+ * @param buildPath The path relative to the build directory.
+ */
+function resolveBuildPath(gnBuildName: string, buildPath: string): string|null {
+  const gnPath = path.posix.normalize(`out/${gnBuildName}/${buildPath}`);
+  if (gnPath === '..' || gnPath.startsWith('../')) {
+    return null;
+  }
+  return `//${gnPath}`;
+}
+
+/**
+ * A flag (or a flag argument) that is, or ends with, an explicitly relative
+ * path, as in `../../include`, `-L../lib` or `--sysroot=./sysroot`. These
+ * paths are relative to the build directory.
+ */
+const RELATIVE_PATH_FLAG = /^(-[^./]*)?(\.\.?\/[^=]*|\.\.?)$/;
+
+/**
+ * Given a list of flags, rewrite paths that are relative to the build
+ * directory as GYP paths. Other flags are returned unchanged, as are flags
+ * whose paths are outside of the project directory.
+ * @param gnBuildName The GN build name.
+ * @param flags The flags.
+ * @param gypifyPath A function that converts GN paths to GYP paths.
+ * @param onOutsideProject A function called with each flag whose path is
+ * outside of the project directory.
+ */
+function rebaseBuildPaths(
+    gnBuildName: string, flags: string[], gypifyPath: (path: string) => string,
+    onOutsideProject: (flag: string) => void): string[] {
+  return flags.map(flag => {
+    const match = flag.match(RELATIVE_PATH_FLAG);
+    if (!match) {
+      return flag;
+    }
+    const gnPath = resolveBuildPath(gnBuildName, match[2]);
+    if (gnPath === null) {
+      onOutsideProject(flag);
+      return flag;
+    }
+    return `${match[1] || ''}${gypifyPath(gnPath)}`;
+  });
+}
+
+/**
+ * GN source expansions (used by action_foreach targets) that have an
+ * equivalent GYP rule variable.
+ */
+const RULE_INPUT_VARIABLES: {[expansion: string]: string} = {
+  '{{source}}': '<(RULE_INPUT_PATH)',
+  '{{source_file_part}}': '<(RULE_INPUT_NAME)',
+  '{{source_name_part}}': '<(RULE_INPUT_ROOT)',
+  '{{source_dir}}': '<(RULE_INPUT_DIRNAME)'
+};
+
+/**
+ * Given a GN source path, return the values that GN source expansions take
+ * for that source, as GYP paths where applicable.
+ * @param gnSource The GN path of the source.
+ * @param gnTargetDir The GN path of the directory containing the target.
+ * @param genDir The GYP directory for generated files of the toolchain.
+ * @param gypifySourcePath A function that converts GN paths to GYP paths.
+ */
+function getSourceExpansions(
+    gnSource: string, gnTargetDir: string, genDir: string,
+    gypifySourcePath: (path: string) => string): {[expansion: string]: string} {
+  const slashIndex = gnSource.lastIndexOf('/');
+  const dir = gnSource.slice(2, slashIndex);
+  const filePart = gnSource.slice(slashIndex + 1);
+  const dotIndex = filePart.lastIndexOf('.');
+  const targetRelative =
+      path.posix.relative(gnTargetDir.slice(2), gnSource.slice(2));
+  return {
+    '{{source}}': gypifySourcePath(gnSource),
+    '{{source_file_part}}': filePart,
+    '{{source_name_part}}': dotIndex === -1 ? filePart :
+                                              filePart.slice(0, dotIndex),
+    '{{source_extension}}': dotIndex === -1 ? '' : filePart.slice(dotIndex + 1),
+    '{{source_dir}}': gypifySourcePath(`//${dir}`),
+    '{{source_root_relative_dir}}': dir || '.',
+    '{{source_gen_dir}}': `${genDir}/gen${dir ? `/${dir}` : ''}`,
+    '{{source_out_dir}}': `${genDir}/obj${dir ? `/${dir}` : ''}`,
+    '{{source_target_relative}}': targetRelative
+  };
+}
+
+/**
+ * Replace all GN source expansions in a string with the given values, or throw
+ * if an expansion isn't recognized.
+ * @param str The string containing GN source expansions.
+ * @param values A map of GN source expansions to their values.
+ */
+function expandSourceExpansions(
+    str: string, values: {[expansion: string]: string}): string {
+  return str.replace(/{{[a-z_]+}}/g, (expansion) => {
+    if (!values.hasOwnProperty(expansion)) {
+      throw new Error(`Unsupported GN substitution ${expansion} in ${str}`);
+    }
+    return values[expansion];
+  });
+}
+
+/**
+ * Interpreters used when the interpreters option doesn't specify one. Python
+ * scripts are run with the `python` GYP variable, which embedders can
+ * override.
+ */
+const DEFAULT_INTERPRETERS: {[scriptOrExtension: string]: string[]} = {
+  '.py': ['<(python)']
+};
+
+/**
+ * A description of a script that runs another tool, given as its first
+ * argument that isn't one of the script's own flags.
+ */
+export interface ScriptWrapper {
+  /**
+   * The flags that the script accepts before the tool, without values (for
+   * example, '--stamp' matches both `--stamp` and `--stamp=<value>`).
+   */
+  flags?: string[];
+}
+
+/**
+ * How a GN action's script is run.
+ */
+interface ScriptInvocation {
+  /**
+   * The command that runs the script (or the tool that it wraps).
+   */
+  command: string[];
+  /**
+   * The GYP path of the script or tool.
+   */
+  program: string;
+  /**
+   * The arguments passed to the script or tool, as they appear in GN.
+   */
+  args: string[];
+  /**
+   * The arguments passed to the script or tool, with paths corrected.
+   */
+  correctedArgs: string[];
+}
+
+/**
+ * Given a list of C flags, separate the include directories from the other
+ * flags. Both `-I dir` and `-Idir` forms are recognized.
  * @param cflags A list of C flags.
  */
-function extractIncludes(cflags: string[]): string[] {
-  const result = [];
+function extractIncludes(cflags: string[]):
+    {includes: string[], flags: string[]} {
+  const includes = [];
+  const flags = [];
   for (let i = 0; i < cflags.length; i++) {
-    if (cflags[i].match(/^-[Ii]/)) {
+    if (cflags[i] === '-I') {
       if (i + 1 === cflags.length) {
         throw new Error(`Unexpected value for last cflag: ${cflags[i]}`);
       }
-      result.push(cflags[i + 1]);
+      includes.push(cflags[++i]);
+    } else if (cflags[i].startsWith('-I')) {
+      includes.push(cflags[i].slice('-I'.length));
+    } else {
+      flags.push(cflags[i]);
     }
   }
-  return result;
+  return {includes, flags};
 }
 
 /**
  * A function that describes how path arguments to scripts should be corrected.
- * It's script-dependent, and scripts are project-dependent, so this should
- * vary per-project.
+ * It's script-dependent, and scripts are project-dependent, so this can vary
+ * per-project. It's given a function that converts a path relative to the
+ * build directory to a GYP path, or returns paths outside of the project
+ * directory unchanged, and reports them. Arguments that it doesn't know how to
+ * correct should be returned as null; explicitly relative paths among them are
+ * resolved against the build directory, and the rest are passed through
+ * unchanged, and reported.
  */
-export type CorrectPathsForScriptArgs = (script: string, args: string[]) =>
-    string[];
+export type CorrectPathsForScriptArgs =
+    (script: string, args: string[],
+     gypifyBuildPath: (path: string) => string) => Array<string|null>;
 /**
  * A function that describes how include paths in cflags should be corrected.
- * This is project-dependent.
+ * Includes that it returns null for are resolved against the build directory.
+ */
+export type CorrectPathForCFlagInclude = (include: string) => string|null;
+/**
+ * A function that describes whether a GN target should be left out of the GYP
+ * project, along with any dependencies that only it needs.
  */
-export type CorrectPathForCFlagInclude = (include: string) => string;
+export type ExcludeTarget = (gnTargetName: string, gnTarget: GnTarget) =>
+    boolean;
+/**
+ * A dependency edge that was cut because the dependency was excluded.
+ */
+export interface ExcludedDependency {
+  /**
+   * The GN target that depends on the excluded target.
+   */
+  from: string;
+  /**
+   * The excluded GN target.
+   */
+  to: string;
+  build: string;
+  toolchain: string;
+}
+/**
+ * A script argument that was passed through unchanged, because it wasn't
+ * known how to correct it.
+ */
+export interface UnmatchedScriptArg {
+  /**
+   * The GN target whose action passes the argument.
+   */
+  gnTargetName: string;
+  script: string;
+  arg: string;
+}
+
+/**
+ * A flag or script argument that was passed through unchanged, because the
+ * path in it, which is relative to the build directory, is outside of the
+ * project directory.
+ */
+export interface OutsideProjectPath {
+  /**
+   * The GN target whose flags or action contain the path.
+   */
+  gnTargetName: string;
+  flag: string;
+}
+
+/**
+ * Assembler flags that were left out of a GYP target, because GYP applies
+ * compiler flags to every source in a target.
+ */
+export interface IgnoredAsmFlags {
+  /**
+   * The GN target whose assembly sources use the flags.
+   */
+  gnTargetName: string;
+  flags: string[];
+}
 export type GypProjectOptions = {
   /**
    * A function describing how path arguments to scripts should be corrected.
+   * By default, explicitly relative paths are resolved against the build
+   * directory.
    */
-  correctPathsForScriptArgs: CorrectPathsForScriptArgs;
+  correctPathsForScriptArgs?: CorrectPathsForScriptArgs;
   /**
    * A function that describes how include paths in cflags should be corrected.
+   * By default, they're resolved against the build directory.
    */
-  correctPathForCFlagInclude: CorrectPathForCFlagInclude;
+  correctPathForCFlagInclude?: CorrectPathForCFlagInclude;
   /**
    * The root target that will be processed. This info is important because for
    * the root target, also specify public configuration. Child targets don't
@@ -348,10 +974,51 @@ export type GypProjectOptions = {
    */
   gnRootTargetName: string;
   subprojects: GypProjectSplitOptions[];
+  /**
+   * A map of GN build names to the GYP configuration names they should be
+   * emitted as. Builds that aren't listed are mapped to 'Debug' or 'Release'
+   * if their names contain either word, and to their own names otherwise.
+   * Fields that GYP doesn't allow in `configurations` are taken from the
+   * configuration named by the `gn_configuration` GYP variable, which defaults
+   * to that of the first build by name; pass `-Dgn_configuration=<name>` to
+   * gyp to select another.
+   */
+  configurations?: {[gnBuild: string]: string};
+  /**
+   * A map of GN toolchains to the GYP toolsets ('host' or 'target') they
+   * should be emitted as. Toolchains that aren't listed are inferred, which is
+   * only possible if a build has at most one toolchain besides the default.
+   */
+  toolsets?: {[gnToolchain: string]: string};
+  /**
+   * A function describing which GN targets should be left out.
+   */
+  excludeTarget?: ExcludeTarget;
+  /**
+   * How GN targets whose GYP target names would collide are renamed. Defaults
+   * to 'hash'.
+   */
+  targetNaming?: TargetNamingScheme;
+  /**
+   * How GN source sets are translated. Defaults to 'static_library'.
+   */
+  sourceSets?: SourceSetStrategy;
+  /**
+   * Commands that run scripts, keyed by the GN label of the script, or by its
+   * extension (such as '.py'). An empty command runs the script directly.
+   * Python scripts are run with `<(python)` unless specified otherwise, and
+   * other scripts are run directly.
+   */
+  interpreters?: {[scriptOrExtension: string]: string[]};
+  /**
+   * Scripts that only run another tool, keyed by GN label. Actions that run
+   * these scripts run the tool directly instead.
+   */
+  scriptWrappers?: {[script: string]: ScriptWrapper};
 };
 
-export type GypProjectSplitOptions = {
-  name: string,
+export interface GypProjectSplitOptions {
+  name: string;
   file: string;
   predicate: (gnTargetName: string) => boolean;
   setNewPath: (path: string) => string;
@@ -362,34 +1029,100 @@ export type GypProjectSplitOptions = {
  * A helper class that can build a GYP project from a GN project.
  */
 class GypProjectBuilder {
-  private static readonly ignoreTargets = (targetName: string) => {
-    return targetName.startsWith('//gn') && !targetName.startsWith('//gn:protoc');
-  };
-  private static readonly toolchainMap: {[k: string]: string} = {
-    '//gn/standalone/toolchain:gcc_like_host': 'host',
-    '//gn/standalone/toolchain:gcc_like': 'target'
-  };
+  /**
+   * Script arguments that were passed through unchanged.
+   */
+  readonly unmatchedScriptArgs: UnmatchedScriptArg[] = [];
+  /**
+   * Flags and script arguments with paths outside of the project directory.
+   */
+  readonly outsideProjectPaths: OutsideProjectPath[] = [];
+  readonly ignoredAsmFlags: IgnoredAsmFlags[] = [];
+  /**
+   * Whether any target depends on the target that generates empty.cc.
+   */
+  usesEmptyCC = false;
 
   /**
    * Construct a new GypProjectBuilder instance.
    */
   constructor(
-    private readonly gnProject: GnProject,
-    private readonly options: GypProjectOptions) {}
+      private readonly gnProject: GnProject,
+      private readonly options: GypProjectOptions,
+      private readonly gypTargetNames: Map<string, string>) {}
+
+  /**
+   * Given a GN target name, return the GYP target name chosen for it.
+   * @param gnTargetName The GN target name.
+   */
+  private toGypTargetName(gnTargetName: string): string {
+    const {path, target} = parseGnTargetName(gnTargetName);
+    return this.gypTargetNames.get(`//${path}:${target}`) ||
+        gypifyTargetName(gnTargetName);
+  }
 
   /**
    * Given a GN toolchain, return a suitable GYP toolset, or throw if there
    * isn't one.
+   * If the toolchain isn't in the toolsets option, the build's default
+   * toolchain is mapped to 'target', and any other toolchain to 'host'. gn
+   * doesn't report the platform that a toolchain builds for, so if a build has
+   * several other toolchains, they must be in the toolsets option.
    * @param gnToolchain The GN toolchain.
+   * @param gnBuildName The GN build in which the toolchain is used.
    */
-  toGypToolset(gnToolchain: string): string {
+  toGypToolset(gnToolchain: string, gnBuildName: string): string {
     if (!gnToolchain) {
       throw new Error(`Can't resolve toolchain with no information`);
     }
-    if (!GypProjectBuilder.toolchainMap[gnToolchain]) {
-      throw new Error(`Unrecognized GN toolchain: ${gnToolchain}`);
+    const toolsets = this.options.toolsets || {};
+    if (toolsets.hasOwnProperty(gnToolchain)) {
+      return toolsets[gnToolchain];
+    }
+    const gnBuild = this.gnProject.getBuild(gnBuildName);
+    if (gnToolchain === gnBuild.getDefaultToolchain()) {
+      return 'target';
+    }
+    const candidates = gnBuild.getToolchains().filter(
+        toolchain => toolchain !== gnBuild.getDefaultToolchain() &&
+            !toolsets.hasOwnProperty(toolchain));
+    if (candidates.length > 1) {
+      throw new Error(`Can't infer a GYP toolset for GN toolchain ${
+          gnToolchain} in build ${gnBuildName} (candidates for host: ${
+          candidates.join(', ')}); specify it in the toolsets option`);
+    }
+    return 'host';
+  }
+
+  /**
+   * Returns whether a GN target should be left out of the GYP project.
+   * @param gnTargetName The GN target name (sans toolchain).
+   * @param build The GN build name.
+   * @param toolchain The GN toolchain.
+   */
+  private isExcluded(gnTargetName: string, build: string, toolchain: string):
+      boolean {
+    return !!this.options.excludeTarget &&
+        this.options.excludeTarget(
+            gnTargetName,
+            this.gnProject.getBuild(build).getTarget(toolchain, gnTargetName));
+  }
+
+  /**
+   * Given a GN build name, return the name of the GYP configuration it
+   * corresponds to.
+   * @param gnBuild The GN build name.
+   */
+  toGypConfiguration(gnBuild: string): string {
+    const configurations = this.options.configurations || {};
+    if (configurations.hasOwnProperty(gnBuild)) {
+      return configurations[gnBuild];
+    } else if (gnBuild.match(/debug/i)) {
+      return 'Debug';
+    } else if (gnBuild.match(/release/i)) {
+      return 'Release';
     }
-    return GypProjectBuilder.toolchainMap[gnToolchain];
+    return gnBuild;
   }
 
   private getGenDirectoryForToolset(
@@ -402,9 +1135,11 @@ class GypProjectBuilder {
   }
 
   private getSubproject(name: string) {
-    const matchingSubprojects = this.options.subprojects.filter(subProject => subProject.predicate(name));
+    const matchingSubprojects = this.options.subprojects.filter(
+        subProject => subProject.predicate(name));
     if (matchingSubprojects.length !== 1) {
-      throw new Error(`Expected ${name} to belong to one subproject but it belongs to multiple.`);
+      throw new Error(`Expected ${
+          name} to belong to one subproject but it belongs to multiple.`);
     }
     return matchingSubprojects[0];
   }
@@ -416,6 +1151,397 @@ class GypProjectBuilder {
     return path;
   }
 
+  /**
+   * Given the GN path of a script, return the command that runs it.
+   * @param script The GN path of the script.
+   * @param boundGypifyPath A function that converts GN paths to GYP paths.
+   */
+  private getScriptCommand(
+      script: string, boundGypifyPath: (path: string) => string): string[] {
+    const interpreters =
+        Object.assign({}, DEFAULT_INTERPRETERS, this.options.interpreters);
+    const extension = path.posix.extname(script);
+    let interpreter: string[] = [];
+    if (interpreters.hasOwnProperty(script)) {
+      interpreter = interpreters[script];
+    } else if (interpreters.hasOwnProperty(extension)) {
+      interpreter = interpreters[extension];
+    }
+    return [...interpreter, boundGypifyPath(script)];
+  }
+
+  /**
+   * Given a GN action or action_foreach target, return how its script is run.
+   * If the script is a wrapper, the tool that it wraps is run instead.
+   * @param gnTarget The GN target.
+   * @param gnTargetBuildConfig Additional information about the GN target.
+   * @param boundGypifyPath A function that converts GN paths to GYP paths.
+   */
+  private toScriptInvocation(
+      gnTarget: GnTarget, gnTargetBuildConfig: GnTargetBuildConfig,
+      boundGypifyPath: (path: string) => string): ScriptInvocation {
+    const script = gnTarget.script!;
+    let program = script;
+    let args = gnTarget.args || [];
+    const scriptWrappers = this.options.scriptWrappers || {};
+    if (scriptWrappers.hasOwnProperty(script)) {
+      const flags = scriptWrappers[script].flags || [];
+      const toolIndex = args.findIndex(
+          arg =>
+              !flags.some(flag => arg === flag || arg.startsWith(`${flag}=`)));
+      if (toolIndex === -1) {
+        throw new Error(`${gnTargetBuildConfig.name} runs ${
+            script} without a tool to wrap`);
+      }
+      // Tools are given relative to the build directory.
+      const tool = args[toolIndex];
+      program = tool;
+      if (!path.posix.isAbsolute(tool)) {
+        const gnPath = resolveBuildPath(gnTargetBuildConfig.build, tool);
+        if (gnPath === null) {
+          this.addOutsideProjectPath(gnTargetBuildConfig, tool);
+        } else {
+          program = gnPath;
+        }
+      }
+      args = args.slice(toolIndex + 1);
+    }
+    const command = program.startsWith('//') ?
+        this.getScriptCommand(program, boundGypifyPath) :
+        [program];
+    return {
+      command,
+      program: command[command.length - 1],
+      args,
+      correctedArgs: this.correctScriptArgs(
+          script, args, gnTargetBuildConfig, boundGypifyPath)
+    };
+  }
+
+  /**
+   * Record a flag or script argument that is passed through unchanged, because
+   * its path is outside of the project directory.
+   * @param gnTargetBuildConfig The GN target whose flag or argument it is.
+   * @param flag The flag or argument.
+   */
+  private addOutsideProjectPath(
+      gnTargetBuildConfig: GnTargetBuildConfig, flag: string) {
+    this.outsideProjectPaths.push(
+        {gnTargetName: gnTargetBuildConfig.name, flag});
+  }
+
+  /**
+   * Given the arguments to a GN action's script, return them with paths
+   * corrected. Arguments that can't be corrected are passed through unchanged,
+   * and recorded.
+   * @param script The GN path of the script.
+   * @param args The arguments.
+   * @param gnTargetBuildConfig Additional information about the GN target.
+   * @param boundGypifyPath A function that converts GN paths to GYP paths.
+   */
+  private correctScriptArgs(
+      script: string, args: string[], gnTargetBuildConfig: GnTargetBuildConfig,
+      boundGypifyPath: (path: string) => string): string[] {
+    const gypifyBuildPath = (buildPath: string) => {
+      const gnPath = resolveBuildPath(gnTargetBuildConfig.build, buildPath);
+      if (gnPath === null) {
+        this.addOutsideProjectPath(gnTargetBuildConfig, buildPath);
+        return buildPath;
+      }
+      return boundGypifyPath(gnPath);
+    };
+    const correctedArgs = this.options.correctPathsForScriptArgs ?
+        this.options.correctPathsForScriptArgs(script, args, gypifyBuildPath) :
+        args.map(() => null);
+    if (correctedArgs.length !== args.length) {
+      throw new Error(`Correcting arguments for ${
+          script} should not change the number of arguments`);
+    }
+    return correctedArgs.map((correctedArg, i) => {
+      if (correctedArg !== null) {
+        return correctedArg;
+      }
+      if (RELATIVE_PATH_FLAG.test(args[i])) {
+        return rebaseBuildPaths(
+            gnTargetBuildConfig.build, [args[i]], boundGypifyPath,
+            arg => this.addOutsideProjectPath(gnTargetBuildConfig, arg))[0];
+      }
+      // Arguments that contain expansions are expanded into GYP paths.
+      if (args[i].indexOf('{{') === -1) {
+        this.unmatchedScriptArgs.push(
+            {gnTargetName: gnTargetBuildConfig.name, script, arg: args[i]});
+      }
+      return args[i];
+    });
+  }
+
+  /**
+   * Given a GN copy target, return GYP copies that copy each source to its
+   * output. Sources that are renamed as they're copied can't be expressed as
+   * copies, and are copied by actions instead.
+   * @param targetName The GYP target name.
+   * @param gnTarget The GN target.
+   * @param gnTargetBuildConfig Additional information about the GN target.
+   * @param boundGypifyPath A function that converts GN paths to GYP paths.
+   */
+  private toGypCopies(
+      targetName: string, gnTarget: GnTarget,
+      gnTargetBuildConfig: GnTargetBuildConfig,
+      boundGypifyPath: (path: string) => string): GypFields {
+    const sources = gnTarget.sources || [];
+    const outputs = gnTarget.outputs || [];
+    // GN copies each source to its own output.
+    if (sources.length !== outputs.length) {
+      throw new Error(`${gnTargetBuildConfig.name} copies ${
+          sources.length} sources to ${outputs.length} outputs`);
+    }
+    const copies: GypCopy[] = [];
+    const actions: GypAction[] = [];
+    sources.forEach((source, i) => {
+      const output = outputs[i];
+      if (path.posix.basename(source) !== path.posix.basename(output)) {
+        actions.push({
+          action_name: `${targetName}_action_${actions.length}`,
+          inputs: [boundGypifyPath(source)],
+          outputs: [boundGypifyPath(output)],
+          action: ['cp', '<@(_inputs)', '<@(_outputs)']
+        });
+        return;
+      }
+      // The trailing slash keeps the build directory itself recognizable.
+      const destination =
+          boundGypifyPath(`${path.posix.dirname(output)}/`).replace(/\/$/, '');
+      let copy = copies.find(copy => copy.destination === destination);
+      if (!copy) {
+        copy = {destination, files: []};
+        copies.push(copy);
+      }
+      copy.files.push(boundGypifyPath(source));
+    });
+    const result: GypFields = {};
+    if (copies.length > 0) {
+      result.copies = copies;
+    }
+    if (actions.length > 0) {
+      result.actions = actions;
+    }
+    return result;
+  }
+
+  /**
+   * Given a GN action_foreach target, return GYP rules that run the action once
+   * for each source. Sources are grouped by extension, because GYP rules match
+   * sources by extension. If a GN source expansion can't be expressed in a rule
+   * (for example, {{source_gen_dir}} for sources in different directories), one
+   * action per source is returned instead.
+   * @param targetName The GYP target name.
+   * @param gnTarget The GN target.
+   * @param gnTargetBuildConfig Additional information about the GN target.
+   * @param boundGypifyPath A function that converts GN paths to GYP paths.
+   */
+  private toGypRulesOrActions(
+      targetName: string, gnTarget: GnTarget,
+      gnTargetBuildConfig: GnTargetBuildConfig,
+      boundGypifyPath: (path: string) => string): GypFields {
+    const script = gnTarget.script;
+    if (!script) {
+      throw new Error(
+          `${gnTargetBuildConfig.name} is an action_foreach but has no script`);
+    }
+    const outputPatterns = gnTarget.output_patterns;
+    if (!outputPatterns) {
+      throw new Error(`${
+          gnTargetBuildConfig
+              .name} is an action_foreach but has no output patterns`);
+    }
+    const {command, program, args, correctedArgs} =
+        this.toScriptInvocation(gnTarget, gnTargetBuildConfig, boundGypifyPath);
+    const {path: gnTargetDir} = parseGnTargetName(gnTargetBuildConfig.name);
+    const genDir = this.getGenDirectoryForToolset(gnTargetBuildConfig);
+    const sourceExpansions =
+        (gnTarget.sources || [])
+            .map(
+                source => getSourceExpansions(
+                    source, `//${gnTargetDir}`, genDir, boundGypifyPath));
+    const inputs = [...(gnTarget.inputs || []).map(boundGypifyPath), program];
+    const expandOutputs = (values: {[expansion: string]: string}) =>
+        outputPatterns.map(pattern => {
+          const output = expandSourceExpansions(pattern, values);
+          return output.startsWith('//') ?
+              boundGypifyPath(output) :
+              this.applySubprojectPathTransforms(output);
+        });
+    // Arguments that contain expansions are expanded into GYP paths, so they
+    // don't need correcting.
+    const expandAction = (values: {[expansion: string]: string}) =>
+        [...command,
+         ...args.map(
+             (arg, i) => arg.indexOf('{{') === -1 ?
+                 correctedArgs[i] :
+                 expandSourceExpansions(arg, values))];
+
+    const usedPatterns = [...outputPatterns, ...args].join(' ');
+    const rules: GypRule[] = [];
+    const extensions: string[] =
+        sourceExpansions.map(values => values['{{source_extension}}'])
+            .reduce(removeDuplicates, [] as string[]);
+    for (const extension of extensions) {
+      const group = sourceExpansions.filter(
+          values => values['{{source_extension}}'] === extension);
+      const ruleValues = Object.assign({}, RULE_INPUT_VARIABLES);
+      // Expansions without a rule variable can still be used if they have the
+      // same value for every source in the rule.
+      let expressible = !!extension;
+      for (const expansion of Object.keys(group[0])) {
+        if (RULE_INPUT_VARIABLES.hasOwnProperty(expansion)) {
+          continue;
+        }
+        if (group.every(values => values[expansion] === group[0][expansion])) {
+          ruleValues[expansion] = group[0][expansion];
+        } else if (usedPatterns.indexOf(expansion) !== -1) {
+          expressible = false;
+        }
+      }
+      if (!expressible) {
+        const actions = sourceExpansions.map((values, i): GypAction => {
+          return {
+            action_name: `${targetName}_action_${i}`,
+            inputs: [...inputs, values['{{source}}']],
+            outputs: expandOutputs(values),
+            action: expandAction(values)
+          };
+        });
+        return {actions};
+      }
+      rules.push({
+        rule_name: `${targetName}_${extension}_rule`,
+        extension,
+        inputs,
+        outputs: expandOutputs(ruleValues),
+        action: expandAction(ruleValues)
+      });
+    }
+    return {rules};
+  }
+
+  /**
+   * Given a GN target or config, return GYP fields for its include
+   * directories, compiler flags and defines.
+   * @param gnTarget The GN target or config.
+   * @param gnTargetBuildConfig Additional information about the GN target.
+   * @param boundGypifyPath A function that converts GN paths to GYP paths.
+   */
+  private toGypCompilerSettings(
+      gnTarget: GnTarget, gnTargetBuildConfig: GnTargetBuildConfig,
+      boundGypifyPath: (path: string) => string): GypFields {
+    const fragment: GypFields = {};
+
+    // Include directories specified as flags are moved to include_dirs.
+    const cflagsIncludes: string[] = [];
+    const cflags: {[field: string]: string[]} = {};
+    for (const field of CFLAGS_FIELDS) {
+      const {includes, flags} = extractIncludes(gnTarget[field] || []);
+      cflagsIncludes.push(...includes);
+      cflags[field] = rebaseBuildPaths(
+          gnTargetBuildConfig.build, flags, boundGypifyPath,
+          flag => this.addOutsideProjectPath(gnTargetBuildConfig, flag));
+    }
+
+    {  // Include Directories
+      const includeDirs: string[] = [
+        ...(gnTarget.include_dirs || []).map(boundGypifyPath),
+        ...cflagsIncludes.map(include => {
+          const correctedInclude = this.options.correctPathForCFlagInclude ?
+              this.options.correctPathForCFlagInclude(include) :
+              null;
+          if (correctedInclude !== null) {
+            return this.applySubprojectPathTransforms(correctedInclude);
+          } else if (path.posix.isAbsolute(include)) {
+            return include;
+          }
+          const gnPath = resolveBuildPath(gnTargetBuildConfig.build, include);
+          if (gnPath === null) {
+            this.addOutsideProjectPath(gnTargetBuildConfig, `-I${include}`);
+            return include;
+          }
+          return boundGypifyPath(gnPath);
+        })
+      ].reduce(removeDuplicates, [] as string[]);
+      fragment.include_dirs = includeDirs;
+    }
+
+    {  // Compiler Flags
+      for (const field of CFLAGS_FIELDS) {
+        if (cflags[field].length > 0) {
+          fragment[field] = cflags[field];
+        }
+      }
+      // Xcode toolchains ignore the fields above, and read these instead.
+      const xcodeSettings: GypXcodeSettings = {};
+      const otherCFlags = [...cflags.cflags, ...cflags.cflags_c];
+      const otherCPlusPlusFlags = [...cflags.cflags, ...cflags.cflags_cc];
+      if (otherCFlags.length > 0) {
+        xcodeSettings.OTHER_CFLAGS = otherCFlags;
+      }
+      if (otherCPlusPlusFlags.length > 0) {
+        // OTHER_CPLUSPLUSFLAGS would otherwise inherit cflags_c.
+        xcodeSettings.OTHER_CPLUSPLUSFLAGS = otherCPlusPlusFlags;
+      }
+      if (Object.keys(xcodeSettings).length > 0) {
+        fragment.xcode_settings = xcodeSettings;
+      }
+    }
+
+    {  // Defines
+      fragment.defines = gnTarget.defines || [];
+    }
+
+    return fragment;
+  }
+
+  /**
+   * Given the labels of GN configs, return GYP fields for their combined
+   * include directories, compiler flags and defines, or undefined if they have
+   * none. Configs that are excluded are skipped, as are configs that weren't
+   * described (project.json doesn't describe configs).
+   * @param gnConfigNames The labels of the GN configs.
+   * @param gnTargetBuildConfig Additional information about the GN target to
+   * which the configs apply.
+   * @param boundGypifyPath A function that converts GN paths to GYP paths.
+   */
+  private toGypDependentSettings(
+      gnConfigNames: string[], gnTargetBuildConfig: GnTargetBuildConfig,
+      boundGypifyPath: (path: string) => string): GypFields|undefined {
+    const {build, toolchain} = gnTargetBuildConfig;
+    const gnBuild = this.gnProject.getBuild(build);
+    const combinedConfig: GnTarget = {deps: [], toolchain};
+    for (const gnConfigName of gnConfigNames) {
+      const {path, target} = parseGnTargetName(gnConfigName);
+      const label = `//${path}:${target}`;
+      if (!gnBuild.hasTarget(toolchain, label) ||
+          this.isExcluded(label, build, toolchain)) {
+        continue;
+      }
+      const gnConfig = gnBuild.getTarget(toolchain, label);
+      for (const field of COMPILER_SETTINGS_FIELDS) {
+        combinedConfig[field] =
+            [...(combinedConfig[field] || []), ...(gnConfig[field] || [])];
+      }
+    }
+    const settings = this.toGypCompilerSettings(
+        combinedConfig, gnTargetBuildConfig, boundGypifyPath);
+    const defines: string[] =
+        settings.defines!.reduce(removeDuplicates, [] as string[]);
+    settings.defines = defines;
+    if (settings.include_dirs!.length === 0) {
+      delete settings.include_dirs;
+    }
+    if (defines.length === 0) {
+      delete settings.defines;
+    }
+    return Object.keys(settings).length > 0 ? settings : undefined;
+  }
+
   /**
    * Given a GN target and additional information about it not contained within
    * the target, create a GYP target "fragment".
@@ -423,25 +1549,30 @@ class GypProjectBuilder {
    * @param gnTargetBuildConfig Additional information about the GN target.
    */
   private toGypTargetFragment(
-      subprojectName: string, gnTarget: GnTarget, gnTargetBuildConfig: GnTargetBuildConfig): GypTarget {
+      subprojectName: string, gnTarget: GnTarget,
+      gnTargetBuildConfig: GnTargetBuildConfig,
+      gypTargetType: string): GypTarget {
     const boundGypifyPath = (path: string) =>
-        this.applySubprojectPathTransforms(gypifyPath(gnTargetBuildConfig.build, path));
+        this.applySubprojectPathTransforms(
+            gypifyPath(gnTargetBuildConfig.build, path));
     const boundParseGnTargetName = (dep: string) => {
       const parsedGnTargetName = parseGnTargetName(dep);
       if (!parsedGnTargetName.toolchain) {
-        parsedGnTargetName.toolchain = this.gnProject.getBuild(gnTargetBuildConfig.build)
-                        .getDefaultToolchain();
+        parsedGnTargetName.toolchain =
+            this.gnProject.getBuild(gnTargetBuildConfig.build)
+                .getDefaultToolchain();
       }
       return parsedGnTargetName;
     };
 
     // Create the corresponding GYP target.
-    const targetName = gypifyTargetName(gnTargetBuildConfig.name);
+    const targetName = this.toGypTargetName(gnTargetBuildConfig.name);
     if (!gnTarget.type) {
       throw new Error(`GN target ${targetName} has no type.`);
     }
-    const targetToolset = this.toGypToolset(gnTargetBuildConfig.toolchain);
-    let targetType = gypifyTargetType(gnTarget.type);
+    const targetToolset = this.toGypToolset(
+        gnTargetBuildConfig.toolchain, gnTargetBuildConfig.build);
+    let targetType = gypTargetType;
 
     const fragment: GypTarget = {
       target_name: targetName,
@@ -454,7 +1585,8 @@ class GypProjectBuilder {
 
     {  // Root target custom override.
       if (gnTargetBuildConfig.name === this.options.gnRootTargetName) {
-        if (targetType !== 'shared_library' && targetType !== 'static_library') {
+        if (targetType !== 'shared_library' &&
+            targetType !== 'static_library') {
           // Not sure what to do yet when the specified root target is not
           // a shared or static library.
           throw new Error('Root target must be a shared or static library.');
@@ -465,52 +1597,80 @@ class GypProjectBuilder {
     }
 
     {  // Dependencies
-      fragment.dependencies = gnTarget.deps
-        .filter(name => !GypProjectBuilder.ignoreTargets(name))
-        .map(gnDep => {
-          const {path, target, toolchain} = boundParseGnTargetName(gnDep);
-          // Get which GYP subproject this belongs to.
-          const subproject = this.getSubproject(`//${path}:${target}`);
-          let prefix = '';
-          if (subproject.name !== subprojectName) {
-            prefix = `${subproject.file}:`;
-          }
-          return `${prefix}${gypifyTargetName(`//${path}:${target}`)}#${
-              this.toGypToolset(toolchain)}`;
-        });
+      fragment.dependencies =
+          gnTarget.deps.map(boundParseGnTargetName)
+              .filter(
+                  ({path, target, toolchain}) => !this.isExcluded(
+                      `//${path}:${target}`, gnTargetBuildConfig.build,
+                      toolchain))
+              .map(({path, target, toolchain}) => {
+                // Get which GYP subproject this belongs to.
+                const subproject = this.getSubproject(`//${path}:${target}`);
+                let prefix = '';
+                if (subproject.name !== subprojectName) {
+                  prefix = `${subproject.file}:`;
+                }
+                return `${prefix}${
+                    this.toGypTargetName(`//${path}:${target}`)}#${
+                    this.toGypToolset(toolchain, gnTargetBuildConfig.build)}`;
+              });
     }
 
-    {  // Include Directories
-      const includeDirs: string[] = [
-        ...(gnTarget.include_dirs || []).map(boundGypifyPath),
-        ...extractIncludes(gnTarget.cflags || [])
-          .map(this.options.correctPathForCFlagInclude)
-          .map((path) => {
-            if (path.startsWith('../')) {
-              return `<(root_relative_to_gypfile)/${path.slice('../'.length)}`;
-            } else {
-              return path;
-            }
-          })
-          .map(path => this.applySubprojectPathTransforms(path))
-      ].reduce(removeDuplicates, [] as string[]);
-      fragment.include_dirs = includeDirs;
+    {  // Compiler Settings
+      Object.assign(
+          fragment,
+          this.toGypCompilerSettings(
+              gnTarget, gnTargetBuildConfig, boundGypifyPath));
+      // GYP has no assembler flags, and cflags would also apply to C and C++
+      // sources, so assembler flags are left out.
+      const hasAsmSources = (gnTarget.sources ||
+                             []).some(source => !!source.match(/\.(s|S|asm)$/));
+      if (hasAsmSources && gnTarget.asmflags && gnTarget.asmflags.length > 0) {
+        this.ignoredAsmFlags.push(
+            {gnTargetName: gnTargetBuildConfig.name, flags: gnTarget.asmflags});
+      }
     }
 
-    {  // Defines
-      fragment.defines = gnTarget.defines || [];
+    {  // Dependent Settings
+      const directDependentSettings = this.toGypDependentSettings(
+          gnTarget.public_configs || [], gnTargetBuildConfig, boundGypifyPath);
+      if (directDependentSettings) {
+        fragment.direct_dependent_settings = directDependentSettings;
+      }
+      const allDependentSettings = this.toGypDependentSettings(
+          gnTarget.all_dependent_configs || [], gnTargetBuildConfig,
+          boundGypifyPath);
+      if (allDependentSettings) {
+        fragment.all_dependent_settings = allDependentSettings;
+      }
+      // Source sets that aren't compiled only provide headers, which their
+      // dependents need the same include directories to use.
+      if (gnTarget.type === 'source_set' && targetType === 'none' &&
+          fragment.include_dirs!.length > 0) {
+        const settings = fragment.direct_dependent_settings || {};
+        const includeDirs: string[] = [
+          ...fragment.include_dirs!, ...(settings.include_dirs || [])
+        ].reduce(removeDuplicates, [] as string[]);
+        settings.include_dirs = includeDirs;
+        fragment.direct_dependent_settings = settings;
+      }
     }
 
     {  // Sources
-      fragment.sources = (gnTarget.sources || [])
-        .map(boundGypifyPath);
+      fragment.sources = (gnTarget.sources || []).map(boundGypifyPath);
       if (targetType === 'static_library') {
         // empty.cc is here to satisfy the linker if there are no cc files.
         // TODO: Make this more robust.
-        if (!fragment.sources!.some(source => source.endsWith('.cc'))) {
+        const needsEmptyCC = this.options.sourceSets === 'native' ?
+            !fragment.sources!.some(isCompiledSource) :
+            !fragment.sources!.some(source => source.endsWith('.cc'));
+        if (needsEmptyCC) {
           fragment.sources!.push(`${
-              this.getGenDirectoryForToolset(gnTargetBuildConfig)}/gen/empty.cc`);
-          fragment.dependencies!.push(`./empty.gyp:gen_empty_cc#${targetToolset}`);
+              this.getGenDirectoryForToolset(
+                  gnTargetBuildConfig)}/gen/empty.cc`);
+          fragment.dependencies!.push(
+              `./empty.gyp:gen_empty_cc#${targetToolset}`);
+          this.usesEmptyCC = true;
         }
       }
     }
@@ -524,51 +1684,28 @@ class GypProjectBuilder {
           }
           const metaInputs =
               [...(gnTarget.inputs || []), ...(gnTarget.sources || [])];
+          const {command, correctedArgs} = this.toScriptInvocation(
+              gnTarget, gnTargetBuildConfig, boundGypifyPath);
           fragment.actions = [{
             action_name: `${targetName}_action`,
             inputs: metaInputs.map(boundGypifyPath),
             outputs: (gnTarget.outputs || []).map(boundGypifyPath),
-            action: [
-              ...(gnTarget.script.endsWith('.py') ? ['python'] : []),
-              boundGypifyPath(gnTarget.script!),
-              ...this.options.correctPathsForScriptArgs(
-                  gnTarget.script, gnTarget.args || [])
-            ]
+            action: [...command, ...correctedArgs]
           }];
           break;
         }
         case 'action_foreach': {
-          throw new Error(`action_foreach is untested`);
-          // const metaInputs = [
-          //   ...(gnTarget.inputs || []),
-          //   ...(gnTarget.sources || [])
-          // ];
-          // gypTarget.actions = [
-          //   ...metaInputs.map((input, num) => ({
-          //     action_name: `${gypTarget.target_name}_action_${num}`,
-          //     inputs: [canonicalizePath(input)],
-          //     outputs: [],
-          //     action: [
-          //       canonicalizePath(gnTarget.script!),
-          //       ...(gnTarget.args || [])
-          //     ]
-          //   })),
-          //   {
-          //     action_name: `${gypTarget.target_name}_action_final`,
-          //     inputs: [],
-          //     outputs: (gnTarget.outputs || []).map(canonicalizePath),
-          //     action: []
-          //   }
-          // ];
-          // break;
+          Object.assign(
+              fragment,
+              this.toGypRulesOrActions(
+                  targetName, gnTarget, gnTargetBuildConfig, boundGypifyPath));
+          break;
         }
         case 'copy': {
-          fragment.actions = [{
-            action_name: `${targetName}_action`,
-            inputs: (gnTarget.sources || []).map(boundGypifyPath),
-            outputs: (gnTarget.outputs || []).map(boundGypifyPath),
-            action: ['cp', '<@(_inputs)', '<@(_outputs)']
-          }];
+          Object.assign(
+              fragment,
+              this.toGypCopies(
+                  targetName, gnTarget, gnTargetBuildConfig, boundGypifyPath));
           break;
         }
         default:
@@ -576,12 +1713,45 @@ class GypProjectBuilder {
       }
     }
 
-    // Apparently libs not allowed in DEBUG.
-    // if (gnTarget.libs) {
-    //   gypFields.link_settings = {
-    //     libraries: gnTarget.libs.map(l => `-l${l}`)
-    //   };
-    // }
+    {  // Link Settings
+      const linkSettings: GypLinkSettings = {};
+      if (gnTarget.libs && gnTarget.libs.length > 0) {
+        linkSettings.libraries = gnTarget.libs.map(lib => {
+          if (lib.startsWith('//')) {
+            return boundGypifyPath(lib);
+          } else if (lib.indexOf('/') !== -1 || lib.match(/\.(a|so|lib)$/)) {
+            // Paths to library files are passed to the linker as-is.
+            return lib;
+          }
+          return `-l${lib}`;
+        });
+      }
+      if (gnTarget.lib_dirs && gnTarget.lib_dirs.length > 0) {
+        linkSettings.library_dirs = gnTarget.lib_dirs.map(
+            libDir =>
+                libDir.startsWith('//') ? boundGypifyPath(libDir) : libDir);
+      }
+      if (gnTarget.ldflags && gnTarget.ldflags.length > 0) {
+        linkSettings.ldflags = rebaseBuildPaths(
+            gnTargetBuildConfig.build, gnTarget.ldflags, boundGypifyPath,
+            flag => this.addOutsideProjectPath(gnTargetBuildConfig, flag));
+      }
+      if (gnTarget.frameworks && gnTarget.frameworks.length > 0) {
+        // The Xcode generator ignores ldflags, so frameworks are linked through
+        // OTHER_LDFLAGS instead.
+        linkSettings.xcode_settings = {
+          OTHER_LDFLAGS:
+              gnTarget.frameworks
+                  .map(
+                      framework =>
+                          ['-framework', framework.replace(/\.framework$/, '')])
+                  .reduce(flatten, [] as string[])
+        };
+      }
+      if (Object.keys(linkSettings).length > 0) {
+        fragment.link_settings = linkSettings;
+      }
+    }
 
     return fragment;
   }
@@ -593,7 +1763,8 @@ class GypProjectBuilder {
    * toolchain and build name combinations. The "name" field should be the same
    * across all values.
    */
-  toGypTargets(splitName: string, gnTargetBuildConfigs: GnTargetBuildConfig[]): GypTarget[] {
+  toGypTargets(splitName: string, gnTargetBuildConfigs: GnTargetBuildConfig[]):
+      GypTarget[] {
     if (gnTargetBuildConfigs.length === 0) {
       throw new Error('Input is length 0');
     }
@@ -601,29 +1772,24 @@ class GypProjectBuilder {
     if (gnTargetBuildConfigs.some(e => e.name !== name)) {
       throw new Error('Name isn\'t the same across all elements');
     }
-    if (GypProjectBuilder.ignoreTargets(name)) {
-      return [];
-    }
     const targetBuilder = new GypTargetBuilder();
-    // TODO(kjin): Right now we filter non-mac_debug builds.
-    const configs = gnTargetBuildConfigs
-        .filter(
-            gnTargetBuildConfig => gnTargetBuildConfig.build === 'mac_debug');
-    if (configs.length === 0) {
-      return [];
-    }
-    configs.forEach(gnTargetBuildConfig => {
-          const gnTarget =
-              this.gnProject.getBuild(gnTargetBuildConfig.build)
-                  .getTarget(
-                      gnTargetBuildConfig.toolchain, gnTargetBuildConfig.name);
-          const fragment =
-              this.toGypTargetFragment(splitName, gnTarget, gnTargetBuildConfig);
-          const outputs =
-              (gnTarget.outputs ||
-               []).map(output => gypifyPath(gnTargetBuildConfig.build, output));
-          targetBuilder.addTargetFragment(fragment, outputs);
-        });
+    const gnTargets = gnTargetBuildConfigs.map(
+        gnTargetBuildConfig =>
+            this.gnProject.getBuild(gnTargetBuildConfig.build)
+                .getTarget(
+                    gnTargetBuildConfig.toolchain, gnTargetBuildConfig.name));
+    const gypTargetType = toGypTargetType(gnTargets, this.options.sourceSets);
+    gnTargetBuildConfigs.forEach((gnTargetBuildConfig, i) => {
+      const gnTarget = gnTargets[i];
+      const fragment = this.toGypTargetFragment(
+          splitName, gnTarget, gnTargetBuildConfig, gypTargetType);
+      const outputs =
+          (gnTarget.outputs ||
+           []).map(output => gypifyPath(gnTargetBuildConfig.build, output));
+      targetBuilder.addTargetFragment(
+          fragment, this.toGypConfiguration(gnTargetBuildConfig.build),
+          outputs);
+    });
     return targetBuilder.buildWithProxy();
   }
 
@@ -635,60 +1801,419 @@ class GypProjectBuilder {
   generateEmptyCCTarget(): GypTarget {
     const emptyCCTarget = new GypTargetBuilder();
     for (const build of this.gnProject.getBuildNames()) {
-      // TODO(kjin): Right now we filter non-mac_debug builds.
-      if (build !== 'mac_debug') continue;
       for (const toolchain of this.gnProject.getBuild(build).getToolchains()) {
         const output = `${
             this.getGenDirectoryForToolset({build, toolchain})}/gen/empty.cc`;
-        emptyCCTarget.addTargetFragment({
-          target_name: 'gen_empty_cc',
-          type: 'none',
-          actions: [{
-            action_name: 'gen_empty_cc_action',
-            inputs: [],
-            outputs: [output],
-            action: ['touch', '-a', output]
-          }],
-          toolsets: [this.toGypToolset(toolchain)]
-        });
+        emptyCCTarget.addTargetFragment(
+            {
+              target_name: 'gen_empty_cc',
+              type: 'none',
+              actions: [{
+                action_name: 'gen_empty_cc_action',
+                inputs: [],
+                outputs: [output],
+                action: ['touch', '-a', output]
+              }],
+              toolsets: [this.toGypToolset(toolchain, build)]
+            },
+            this.toGypConfiguration(build));
       }
     }
     return emptyCCTarget.buildTarget();
   }
 }
 
+/**
+ * A GYP dependency, resolved relative to the file in which it appears.
+ */
+interface GypDependencyReference {
+  file: string;
+  target: string;
+  /**
+   * The toolset of the dependency, if one was given explicitly.
+   */
+  toolset?: string;
+}
+
+/**
+ * Given a GYP dependency string, return the file, target and toolset that it
+ * refers to.
+ * @param file The GYP file in which the dependency appears.
+ * @param dependency The dependency, which looks like [file:]target[#toolset].
+ */
+function parseGypDependency(
+    file: string, dependency: string): GypDependencyReference {
+  const [withoutToolset, toolset] = dependency.split('#');
+  const separator = withoutToolset.lastIndexOf(':');
+  return {
+    file: separator === -1 ?
+        file :
+        path.normalize(
+            path.join(path.dirname(file), withoutToolset.slice(0, separator))),
+    target: withoutToolset.slice(separator + 1),
+    toolset
+  };
+}
+
+/**
+ * Given GYP fields, return them and their conditional fields, recursively,
+ * each with the toolsets to which they apply and whether gyp reads them only
+ * after building the dependency graph (under `target_conditions`).
+ * @param fields The GYP fields.
+ * @param toolsets The toolsets to which the fields apply.
+ * @param late Whether the fields are under `target_conditions`.
+ */
+function getFieldsByToolsets(
+    fields: GypFields&{target_conditions?: Array<[string, GypFields]>},
+    toolsets: string[], late = false):
+    Array<{toolsets: string[], fields: GypFields, late: boolean}> {
+  const toFieldsByToolsets = (isLate: boolean) =>
+      ([condition, nestedFields]: [string, GypFields]) => {
+        const match = condition.match(/^_toolset=="([^"]*)"(?: and |$)/);
+        return getFieldsByToolsets(
+            nestedFields, match ? [match[1]] : toolsets, isLate);
+      };
+  return [
+    {toolsets, fields, late},
+    ...(fields.conditions || [])
+        .map(toFieldsByToolsets(late))
+        .reduce(flatten, []),
+    ...(fields.target_conditions || [])
+        .map(toFieldsByToolsets(true))
+        .reduce(flatten, [])
+  ];
+}
+
+/**
+ * A problem found in a generated GYP project that would cause gyp to fail, or
+ * the build to behave unexpectedly.
+ */
+export interface GypValidationIssue {
+  kind: 'duplicate-target'|'dangling-dependency'|'toolset-mismatch'|
+      'ignored-dependency'|'dependency-cycle'|'duplicate-output';
+  message: string;
+}
+
+/**
+ * Options for formatting a GYP file.
+ */
+export interface GypFileOptions {
+  /**
+   * 'json' (the default) writes JSON, which gyp also accepts. 'python' writes
+   * Python literals in the style of hand-written GYP files.
+   */
+  style?: 'json'|'python';
+  /**
+   * Whether, in the 'python' style, each target should be preceded by a
+   * comment naming the GN target and builds from which it was generated.
+   */
+  comments?: boolean;
+}
+
 /**
  * A class representing a GYP project.
  */
 export class GypProject {
-  private data: Array<{
-    name: string;
-    file: string;
-    targets: GypTarget[];
-  }> = [];
+  private data: Array<{name: string; file: string; targets: GypTarget[];}> = [];
+  private configurations: string[] = [];
+  private excludedDependencies: ExcludedDependency[] = [];
+  private unmatchedScriptArgs: UnmatchedScriptArg[] = [];
+  private outsideProjectPaths: OutsideProjectPath[] = [];
+  private ignoredAsmFlags: IgnoredAsmFlags[] = [];
+  private gnTargets: GnTargetBuildConfig[] = [];
+  private gnDependencies: GnDependency[] = [];
+  private proxyTargets: string[] = [];
+  private gypTargetNames = new Map<string, string>();
+  private targetOrigins =
+      new Map<string, {gnTargetName: string, builds: string[]}>();
+
+  /**
+   * Get the name and file name of every subproject in this project, including
+   * the generated empty.gyp.
+   */
+  getSubprojects(): Array<{name: string, file: string}> {
+    return this.data.map(({name, file}) => ({name, file}));
+  }
+
+  /**
+   * Get a map from the name of each converted GN target (without a toolchain)
+   * to the name of the corresponding GYP target.
+   */
+  getGypTargetNames(): Map<string, string> {
+    return this.gypTargetNames;
+  }
+
+  /**
+   * Get the dependency edges that were cut because the dependency was
+   * excluded.
+   */
+  getExcludedDependencies(): ExcludedDependency[] {
+    return this.excludedDependencies;
+  }
+
+  /**
+   * Get the script arguments that were passed through unchanged, because it
+   * wasn't known how to correct them.
+   */
+  getUnmatchedScriptArgs(): UnmatchedScriptArg[] {
+    return this.unmatchedScriptArgs;
+  }
+
+  /**
+   * Get the flags and script arguments that were passed through unchanged,
+   * because their paths are outside of the project directory.
+   */
+  getOutsideProjectPaths(): OutsideProjectPath[] {
+    return this.outsideProjectPaths;
+  }
+
+  /**
+   * Get the assembler flags that were left out of generated targets.
+   */
+  getIgnoredAsmFlags(): IgnoredAsmFlags[] {
+    return this.ignoredAsmFlags;
+  }
+
+  /**
+   * Get the graph of GN targets that were walked from the root target in each
+   * build, with targets grouped by toolchain. Excluded targets are included,
+   * but not walked into.
+   */
+  getGnGraphs(): Graph[] {
+    const toId = ({name, toolchain}: GnTargetBuildConfig) =>
+        `${name}(${toolchain})`;
+    const builds: string[] = this.gnTargets.map(target => target.build)
+                                 .reduce(removeDuplicates, [] as string[]);
+    return builds.map(build => {
+      const excluded =
+          this.excludedDependencies.filter(dep => dep.build === build)
+              .map(({to, build, toolchain}) => ({name: to, build, toolchain}));
+      const nodes: GraphNode[] = [
+        ...this.gnTargets.filter(target => target.build === build)
+            .map(target => ({
+                   id: toId(target),
+                   label: target.name,
+                   cluster: target.toolchain
+                 })),
+        ...excluded.map(target => ({
+                          id: toId(target),
+                          label: target.name,
+                          cluster: target.toolchain,
+                          excluded: true
+                        }))
+      ].filter((node, i, arr) => arr.findIndex(n => n.id === node.id) === i);
+      return {
+        name: build,
+        nodes,
+        edges: this.gnDependencies.filter(dep => dep.from.build === build)
+                   .map(({from, to}) => ({from: toId(from), to: toId(to)}))
+      };
+    });
+  }
+
+  /**
+   * Get the graph of generated GYP targets, grouped by subproject, with
+   * dependencies for every toolset and configuration.
+   */
+  getGypGraph(): Graph {
+    const nodes: GraphNode[] = [];
+    const edges: Array<{from: string, to: string}> = [];
+    for (const {name, file, targets} of this.data) {
+      for (const target of targets) {
+        const id = `${file}:${target.target_name}`;
+        const node: GraphNode = {id, label: target.target_name, cluster: name};
+        if (this.proxyTargets.indexOf(id) !== -1) {
+          node.proxy = true;
+        }
+        nodes.push(node);
+        const dependencies: string[] =
+            getFieldsByToolsets(target, target.toolsets || ['target'])
+                .map(({fields}) => fields.dependencies || [])
+                .reduce(flatten, [] as string[]);
+        for (const dependency of dependencies) {
+          const reference = parseGypDependency(file, dependency);
+          edges.push({from: id, to: `${reference.file}:${reference.target}`});
+        }
+      }
+    }
+    return {name: 'gyp', nodes, edges};
+  }
+
+  /**
+   * Check the generated targets for problems that gyp would otherwise report
+   * vaguely, or not at all: duplicate target names, dependencies on targets
+   * or toolsets that don't exist, dependencies under target_conditions (which
+   * gyp ignores), dependency cycles, and action outputs that are produced by
+   * more than one target.
+   */
+  validate(): GypValidationIssue[] {
+    const issues: GypValidationIssue[] = [];
+    // Toolsets built by each target, keyed by file:target.
+    const toolsetsByTarget = new Map<string, string[]>();
+    for (const {file, targets} of this.data) {
+      for (const target of targets) {
+        const id = `${file}:${target.target_name}`;
+        if (toolsetsByTarget.has(id)) {
+          issues.push({
+            kind: 'duplicate-target',
+            message:
+                `${file} has more than one target named ${target.target_name}`
+          });
+        }
+        toolsetsByTarget.set(id, target.toolsets || ['target']);
+      }
+    }
+    // Dependencies and producers of action and copy outputs, keyed by
+    // file:target#toolset and output#toolset respectively.
+    const dependencies = new Map<string, string[]>();
+    const producers = new Map<string, string[]>();
+    for (const {file, targets} of this.data) {
+      for (const target of targets) {
+        const id = `${file}:${target.target_name}`;
+        for (const {toolsets, fields, late} of getFieldsByToolsets(
+                 target, target.toolsets || ['target'])) {
+          if (late && fields.dependencies && fields.dependencies.length > 0) {
+            const ignored = fields.dependencies.join(', ');
+            issues.push({
+              kind: 'ignored-dependency',
+              message: `${id} depends on ${
+                  ignored} under target_conditions, where gyp ignores them`
+            });
+          }
+          for (const toolset of toolsets) {
+            const node = `${id}#${toolset}`;
+            if (!dependencies.has(node)) {
+              dependencies.set(node, []);
+            }
+            for (const dependency of late ? [] : fields.dependencies || []) {
+              const reference = parseGypDependency(file, dependency);
+              const dependencyId = `${reference.file}:${reference.target}`;
+              // Dependencies without a toolset use the dependent's toolset.
+              const dependencyToolset = reference.toolset || toolset;
+              const dependencyToolsets = toolsetsByTarget.get(dependencyId);
+              if (!dependencyToolsets) {
+                issues.push({
+                  kind: 'dangling-dependency',
+                  message: `${id} depends on ${dependency}, which doesn't exist`
+                });
+              } else if (dependencyToolsets.indexOf(dependencyToolset) === -1) {
+                issues.push({
+                  kind: 'toolset-mismatch',
+                  message: `${node} depends on ${
+                      dependency}, which isn't built for the ${
+                      dependencyToolset} toolset`
+                });
+              } else {
+                dependencies.get(node)!.push(
+                    `${dependencyId}#${dependencyToolset}`);
+              }
+            }
+            // Copied files keep their names.
+            const outputs: string[] = [
+              ...(fields.actions || []).map(action => action.outputs),
+              ...(fields.copies || [])
+                  .map(
+                      copy => copy.files.map(
+                          file => `${copy.destination}/${
+                              path.posix.basename(file)}`))
+            ].reduce(flatten, [] as string[]);
+            for (const output of outputs) {
+              const key = `${output}#${toolset}`;
+              producers.set(key, [
+                ...producers.get(key) || [], id
+              ].reduce(removeDuplicates, [] as string[]));
+            }
+          }
+        }
+      }
+    }
+    for (const [key, ids] of Array.from(producers.entries())) {
+      if (ids.length > 1) {
+        issues.push({
+          kind: 'duplicate-output',
+          message:
+              `${key} is produced by more than one target: ${ids.join(', ')}`
+        });
+      }
+    }
+    // Find cycles with a depth-first search, reporting each back edge.
+    const visited = new Set<string>();
+    const stack: string[] = [];
+    const visit = (node: string) => {
+      visited.add(node);
+      stack.push(node);
+      for (const dependency of dependencies.get(node) || []) {
+        const index = stack.indexOf(dependency);
+        if (index !== -1) {
+          issues.push({
+            kind: 'dependency-cycle',
+            message: `Dependency cycle: ${
+                    [...stack.slice(index), dependency].join(' -> ')}`
+          });
+        } else if (!visited.has(dependency)) {
+          visit(dependency);
+        }
+      }
+      stack.pop();
+    };
+    for (const node of Array.from(dependencies.keys()).sort()) {
+      if (!visited.has(node)) {
+        visit(node);
+      }
+    }
+    // The same problem may be found once per configuration.
+    return issues.filter(
+        (issue, i) =>
+            issues.findIndex(other => other.message === issue.message) === i);
+  }
 
   /**
    * Create a GYP build file from this instance.
+   * @param name The name of the subproject.
+   * @param options How the file should be formatted.
    */
-  toGypFile(name: string): string {
+  toGypFile(name: string, options: GypFileOptions = {}): string {
     const subproject = this.data.find(s => s.name === name);
     if (!subproject) {
       throw new Error(`Subproject ${name} doesn't exist.`);
     }
-    return `# ${GEN_MSG}\n${JSON.stringify({
-      variables: { root_relative_to_gypfile: '..' },
+    const gyp = {
+      variables: {
+        root_relative_to_gypfile: '..',
+        [`${CONFIGURATION_VARIABLE}%`]: this.configurations[0],
+        'python%': 'python'
+      },
       targets: subproject.targets
-    }, null, 2)}`;
+    };
+    if (options.style === 'python') {
+      return formatGypFile(
+          gyp, GEN_MSG, options.comments ? (target: GypTarget) => {
+            const origin = this.targetOrigins.get(
+                `${subproject.file}:${target.target_name}`);
+            return origin ? [`Generated from ${origin.gnTargetName} (${
+                                origin.builds.join(', ')})`] :
+                            [];
+          } : undefined);
+    }
+    return `# ${GEN_MSG}\n${JSON.stringify(gyp, null, 2)}`;
   }
 
   /**
    * Given a root target name, return all of the target-build-toolchain tuples
-   * needed to build it.
+   * needed to build it. Excluded targets are not walked into.
    * @param gnProject A GN project.
    * @param gnRootTarget A GN target name.
+   * @param excludeTarget A function describing which targets to exclude.
+   * @param excludedDependencies A list to which cut dependency edges are
+   * added.
+   * @param gnDependencies A list to which every dependency edge walked
+   * (including cut ones) is added.
    */
-  private static getAllGnTargetDeps(gnProject: GnProject, gnRootTarget: string):
-      GnTargetBuildConfig[] {
+  private static getAllGnTargetDeps(
+      gnProject: GnProject, gnRootTarget: string,
+      excludeTarget: ExcludeTarget|undefined,
+      excludedDependencies: ExcludedDependency[],
+      gnDependencies: GnDependency[]): GnTargetBuildConfig[] {
     const seenGnBuildConfigs = new Set<string>();
     const gnBuildConfigQueue: GnTargetBuildConfig[] =
         gnProject.getBuildNames().map(gnBuildName => {
@@ -696,9 +2221,12 @@ export class GypProject {
           const toolchain = build.getDefaultToolchain();
           return {name: gnRootTarget, build: gnBuildName, toolchain};
         });
+    // Configs are marked as seen when they're queued, so that each one is only
+    // visited (and each cut edge only reported) once.
+    gnBuildConfigQueue.forEach(
+        gnBuildConfig => seenGnBuildConfigs.add(JSON.stringify(gnBuildConfig)));
     while (gnBuildConfigQueue.length > 0) {
       const gnBuildConfig = gnBuildConfigQueue.shift()!;
-      seenGnBuildConfigs.add(JSON.stringify(gnBuildConfig));
       const gnTarget =
           gnProject.getBuild(gnBuildConfig.build)
               .getTarget(gnBuildConfig.toolchain, gnBuildConfig.name);
@@ -712,11 +2240,37 @@ export class GypProject {
                   toolchain: toolchain || gnBuildConfig.toolchain
                 };
               })
-              .filter(dep => !seenGnBuildConfigs.has(JSON.stringify(dep)));
+              .map(dep => {
+                gnDependencies.push({from: gnBuildConfig, to: dep});
+                return dep;
+              })
+              .filter(dep => !seenGnBuildConfigs.has(JSON.stringify(dep)))
+              .filter(dep => {
+                const excluded = !!excludeTarget &&
+                    excludeTarget(
+                        dep.name,
+                        gnProject.getBuild(dep.build).getTarget(
+                            dep.toolchain, dep.name));
+                if (excluded) {
+                  excludedDependencies.push({
+                    from: gnBuildConfig.name,
+                    to: dep.name,
+                    build: dep.build,
+                    toolchain: dep.toolchain
+                  });
+                }
+                return !excluded;
+              });
+      deps.forEach(dep => seenGnBuildConfigs.add(JSON.stringify(dep)));
       gnBuildConfigQueue.push(...deps);
     }
+    // Sort so that generated files don't depend on the order of traversal.
     return Array.from(seenGnBuildConfigs.values())
-        .map(gnBuildConfig => JSON.parse(gnBuildConfig));
+        .map(gnBuildConfig => JSON.parse(gnBuildConfig) as GnTargetBuildConfig)
+        .sort(
+            (a, b) => compareStrings(a.name, b.name) ||
+                compareStrings(a.build, b.build) ||
+                compareStrings(a.toolchain, b.toolchain));
   }
 
   /**
@@ -728,23 +2282,70 @@ export class GypProject {
    * to scripts should be corrected.
    * @param gnRootTarget A GN target name.
    */
-  static fromGnProject(
-      gnProject: GnProject,
-      options: GypProjectOptions): GypProject {
+  static fromGnProject(gnProject: GnProject, options: GypProjectOptions):
+      GypProject {
     const result = new GypProject();
     // Get the exact list of dependencies needed.
-    const gnTargetDeps = GypProject.getAllGnTargetDeps(gnProject, options.gnRootTargetName);
+    const gnTargetDeps = GypProject.getAllGnTargetDeps(
+        gnProject, options.gnRootTargetName, options.excludeTarget,
+        result.excludedDependencies, result.gnDependencies);
+    result.gnTargets = gnTargetDeps;
     const gnTargetDepNames: string[] =
         gnTargetDeps.map(dep => dep.name)
             .reduce(removeDuplicates, [] as string[]);
-    const projectBuilder = new GypProjectBuilder(gnProject, options);
+    // Choose unique GYP target names up front, so that dependencies and proxy
+    // targets refer to the same names as the targets themselves.
+    // Executables and static libraries have proxies, except for the root
+    // target, which is emitted as '<(library)'.
+    const hasProxy = (gnTargetDepName: string) => {
+      if (gnTargetDepName === options.gnRootTargetName) {
+        return false;
+      }
+      const gnTargets =
+          gnTargetDeps
+              .filter(gnTargetDep => gnTargetDep.name === gnTargetDepName)
+              .map(
+                  ({name, build, toolchain}) =>
+                      gnProject.getBuild(build).getTarget(toolchain, name));
+      const type = toGypTargetType(gnTargets, options.sourceSets);
+      return type === 'executable' || type === 'static_library';
+    };
+    result.gypTargetNames = getUniqueGypTargetNames(
+        gnTargetDepNames, hasProxy, options.targetNaming || 'hash');
+    const projectBuilder =
+        new GypProjectBuilder(gnProject, options, result.gypTargetNames);
+    // Check that each GN build maps to its own GYP configuration.
+    for (const gnBuildName of gnProject.getBuildNames()) {
+      const configuration = projectBuilder.toGypConfiguration(gnBuildName);
+      if (result.configurations.indexOf(configuration) !== -1) {
+        throw new Error(`More than one GN build maps to the GYP configuration ${
+            configuration}`);
+      }
+      result.configurations.push(configuration);
+    }
     for (const subproject of options.subprojects) {
-      const filteredGnTargetDepNames = gnTargetDepNames.filter(subproject.predicate);
+      const filteredGnTargetDepNames =
+          gnTargetDepNames.filter(subproject.predicate);
       const targets = [];
       for (const gnTargetDepName of filteredGnTargetDepNames) {
-        const gypTargets = projectBuilder.toGypTargets(subproject.name, gnTargetDeps.filter(
-            gnTargetDep => gnTargetDep.name === gnTargetDepName));
-        targets.push(...gypTargets)
+        const gypTargets = projectBuilder.toGypTargets(
+            subproject.name,
+            gnTargetDeps.filter(
+                gnTargetDep => gnTargetDep.name === gnTargetDepName));
+        targets.push(...gypTargets);
+        // Any targets after the first stand in for the first one.
+        result.proxyTargets.push(...gypTargets.slice(1).map(
+            target => `${subproject.file}:${target.target_name}`));
+        const builds: string[] =
+            gnTargetDeps
+                .filter(gnTargetDep => gnTargetDep.name === gnTargetDepName)
+                .map(gnTargetDep => gnTargetDep.build)
+                .reduce(removeDuplicates, [] as string[]);
+        for (const gypTarget of gypTargets) {
+          result.targetOrigins.set(
+              `${subproject.file}:${gypTarget.target_name}`,
+              {gnTargetName: gnTargetDepName, builds});
+        }
       }
       result.data.push({
         name: subproject.name,
@@ -752,11 +2353,16 @@ export class GypProject {
         targets: [...targets]
       });
     }
-    result.data.push({
-      name: 'empty',
-      file: 'empty.gyp',
-      targets: [projectBuilder.generateEmptyCCTarget()]
-    });
+    if (projectBuilder.usesEmptyCC) {
+      result.data.push({
+        name: 'empty',
+        file: 'empty.gyp',
+        targets: [projectBuilder.generateEmptyCCTarget()]
+      });
+    }
+    result.unmatchedScriptArgs = projectBuilder.unmatchedScriptArgs;
+    result.outsideProjectPaths = projectBuilder.outsideProjectPaths;
+    result.ignoredAsmFlags = projectBuilder.ignoredAsmFlags;
     return result;
   }
 }
@@ -1,127 +1,286 @@
+#!/usr/bin/env node
 import * as execa from 'execa';
 import {promises as fs} from 'fs';
-import {GnProject} from './gn';
-import {GypProject} from './gyp';
+import * as path from 'path';
 
-// specific for Perfetto
-function correctPathsForScriptArgs(script: string, args: string[]): string[] {
-  if (script === '//gn/standalone/build_tool_wrapper.py') {
-    let result = args.map(arg => {
-      if (arg.startsWith('../../')) {
-        return `<(root_relative_to_gypfile)/${arg.slice(6)}`;
-      } else if (arg.startsWith('../')) {
-        return arg.slice(3);
-      } else if (arg.startsWith('--')) {
-        arg = arg.replace(
-            /^(--plugin=protoc-gen-plugin=)(.*)$/,
-            `$1<(SHARED_INTERMEDIATE_DIR)/$2`);
-        arg = arg.replace(
-            /^(--plugin_out=.*):(.*)$/, `$1:<(SHARED_INTERMEDIATE_DIR)/$2`);
-        return arg;
-      } else {
-        return `<(SHARED_INTERMEDIATE_DIR)/${arg}`;
-      }
-    });
-    return result;
-  } else {
-    throw new Error('unknown script ' + script);
+import {diffGypFile, findLeftoverGypFiles} from './check';
+import {CliOptions, parseArgs, USAGE} from './cli';
+import {GnToGypConfig, loadConfig, toGypProjectOptions} from './config';
+import {GnCaptureOptions, GnProject} from './gn';
+import {toDot, toJson} from './graph';
+import {GypFileOptions, GypProject} from './gyp';
+import {getPreset} from './presets';
+import {removeDuplicates} from './util';
+
+/**
+ * Load the project configuration named on the command line.
+ * @param options Command-line options.
+ */
+async function getConfig(options: CliOptions): Promise<GnToGypConfig> {
+  if (options.config) {
+    return loadConfig(options.config);
   }
+  return getPreset(options.preset);
 }
 
-// specific for Perfetto
-function correctPathForCFlagInclude(include: string): string {
-  // Every include seems to be relative to a two-level deep directory.
-  // For the purposes of building, lop one layer of depth off.
-  if (include === '../../buildtools/googletest/googletest/include') {
-    return '<(root_relative_to_gypfile)/../gtest/include';
-  }
-  return include.slice('../'.length);
+/**
+ * Get options for describing GN builds, which report progress to stderr.
+ * @param options Command-line options.
+ */
+function getCaptureOptions(options: CliOptions): GnCaptureOptions {
+  return {
+    strategy: options.captureStrategy,
+    onStats: (stats) => {
+      console.error(`Captured ${stats.targets} targets from out/${
+          stats.build} with ${stats.invocations} gn invocation(s) (${
+          stats.strategy}) in ${stats.milliseconds}ms`);
+    }
+  };
 }
 
-async function main(args: string[]) {
-  const perfettoDir = process.env.PERFETTO_PATH;
-  if (!perfettoDir) {
-    throw new Error(`Please define $PERFETTO_PATH`);
+/**
+ * Describe the GN project and write it to the cache file.
+ * @param options Command-line options.
+ * @param config The project configuration.
+ */
+async function capture(
+    options: CliOptions, config: GnToGypConfig): Promise<GnProject> {
+  const gnProject = await GnProject.fromDirectory(
+      options.projectDir, options.builds || config.builds,
+      getCaptureOptions(options));
+  await fs.writeFile(options.cache, GnProject.serialize(gnProject));
+  return gnProject;
+}
+
+/**
+ * Read the GN project from the cache file, describing again any builds that
+ * are missing from it or have changed since it was written. The cache file is
+ * created or updated as needed.
+ * @param options Command-line options.
+ * @param config The project configuration.
+ */
+async function loadOrCapture(
+    options: CliOptions, config: GnToGypConfig): Promise<GnProject> {
+  let serializedGnProject;
+  try {
+    serializedGnProject = await fs.readFile(options.cache, 'utf8');
+  } catch (e) {
+    return capture(options, config);
   }
-  const gypPath = process.env.GYP_PATH;
-  if (!gypPath) {
-    throw new Error(`Please define $GYP_PATH`);
+  const gnProject = await GnProject.update(
+      GnProject.deserialize(serializedGnProject), options.projectDir,
+      options.builds || config.builds, getCaptureOptions(options));
+  const updatedSerializedGnProject = GnProject.serialize(gnProject);
+  if (updatedSerializedGnProject !== serializedGnProject) {
+    await fs.writeFile(options.cache, updatedSerializedGnProject);
   }
+  return gnProject;
+}
 
-  const serializedGnProjectPath = 'all.json';
+/**
+ * Convert the GN project to a GYP project.
+ * @param options Command-line options.
+ * @param config The project configuration.
+ */
+async function convert(
+    options: CliOptions, config: GnToGypConfig): Promise<GypProject> {
+  // Validate the configuration before doing any work.
+  const gypProjectOptions = toGypProjectOptions(config, options.rootTarget);
+  const gnProject = await loadOrCapture(options, config);
+  return GypProject.fromGnProject(gnProject, gypProjectOptions);
+}
 
-  // Get GN build descriptions
-  let gnProject: GnProject;
-  let serializedGnProjectExists = true;
-  try {
-    await fs.stat(serializedGnProjectPath);
-  } catch (e) {
-    serializedGnProjectExists = false;
+/**
+ * Convert the GN project to GYP files and write them to the output directory.
+ * @param options Command-line options.
+ * @param config The project configuration.
+ */
+async function generate(options: CliOptions, config: GnToGypConfig) {
+  const result = await convert(options, config);
+  // Catch problems that gyp would report vaguely, before writing anything.
+  const issues = result.validate();
+  if (issues.length > 0) {
+    throw new Error(`Generated GYP files are invalid:\n${
+        issues.map(issue => `  ${issue.message}`).join('\n')}`);
+  }
+  if (options.check) {
+    await check(options, result);
+    return;
+  }
+  for (const {name, file} of result.getSubprojects()) {
+    await fs.writeFile(
+        path.join(options.outDir, file),
+        result.toGypFile(name, getGypFileOptions(options)));
+  }
+  // Report what excluded targets were providing, once per edge.
+  const excludedDependencies: string[] =
+      result.getExcludedDependencies()
+          .map(({from, to}) => `${from} -> ${to}`)
+          .reduce(removeDuplicates, [] as string[]);
+  for (const excludedDependency of excludedDependencies) {
+    console.error(`Excluded dependency: ${excludedDependency}`);
+  }
+  // Report script arguments that no rule corrected, once per script.
+  const unmatchedScriptArgs: string[] =
+      result.getUnmatchedScriptArgs()
+          .map(({script, arg}) => `${script}: ${arg}`)
+          .reduce(removeDuplicates, [] as string[]);
+  for (const unmatchedScriptArg of unmatchedScriptArgs) {
+    console.error(`Unmatched argument to ${unmatchedScriptArg}`);
+  }
+  // Report paths outside of the project directory, once each.
+  const outsideProjectPaths: string[] =
+      result.getOutsideProjectPaths()
+          .map(({gnTargetName, flag}) => `${gnTargetName}: ${flag}`)
+          .reduce(removeDuplicates, [] as string[]);
+  for (const outsideProjectPath of outsideProjectPaths) {
+    console.error(
+        `Path outside of the project directory in ${outsideProjectPath}`);
+  }
+  // Report assembler flags that were left out, once per target.
+  const ignoredAsmFlags: string[] =
+      result.getIgnoredAsmFlags()
+          .map(({gnTargetName, flags}) => `${gnTargetName}: ${flags.join(' ')}`)
+          .reduce(removeDuplicates, [] as string[]);
+  for (const ignoredAsmFlag of ignoredAsmFlags) {
+    console.error(`Ignored assembler flags for ${ignoredAsmFlag}`);
+  }
+}
+
+/**
+ * Get options for formatting generated GYP files.
+ * @param options Command-line options.
+ */
+function getGypFileOptions(options: CliOptions): GypFileOptions {
+  return {style: options.gypStyle, comments: options.comments};
+}
+
+/**
+ * Compare GYP files in the output directory with those that would be
+ * generated, and fail with a diff if any of them are out of date, or if any
+ * generated file would no longer be generated.
+ * @param options Command-line options.
+ * @param result The generated GYP project.
+ */
+async function check(options: CliOptions, result: GypProject) {
+  let staleFiles = 0;
+  for (const {name, file} of result.getSubprojects()) {
+    let actual: string|null = null;
+    try {
+      actual = await fs.readFile(path.join(options.outDir, file), 'utf8');
+    } catch (e) {
+      // The file is reported as missing.
+    }
+    const diff = diffGypFile(
+        file, result.toGypFile(name, getGypFileOptions(options)), actual);
+    if (diff.length > 0) {
+      console.error(diff.join('\n'));
+      staleFiles++;
+    }
+  }
+  const gypFiles =
+      await Promise.all((await fs.readdir(options.outDir))
+                            .filter(file => file.match(/\.gypi?$/))
+                            .sort()
+                            .map(async file => ({
+                                   file,
+                                   contents: await fs.readFile(
+                                       path.join(options.outDir, file), 'utf8')
+                                 })));
+  const leftoverFiles = findLeftoverGypFiles(
+      gypFiles, result.getSubprojects().map(({file}) => file));
+  for (const file of leftoverFiles) {
+    console.error(`${file} is no longer generated`);
   }
-  if (!serializedGnProjectExists) {
-    gnProject = await GnProject.fromDirectory(
-        perfettoDir, ['mac_debug', 'mac_release']);
-    await fs.writeFile(serializedGnProjectPath, GnProject.serialize(gnProject));
-  } else {
-    gnProject = GnProject.deserialize(
-        await fs.readFile(serializedGnProjectPath, 'utf8'));
+  if (staleFiles > 0) {
+    console.error(`${
+        staleFiles} GYP file(s) are out of date; run generate to update them.`);
+    process.exitCode = 1;
   }
+  if (leftoverFiles.length > 0) {
+    console.error(`${
+        leftoverFiles
+            .length} GYP file(s) are no longer generated; delete them.`);
+    process.exitCode = 1;
+  }
+}
 
-  // Write the gyp file
-  const result = GypProject.fromGnProject(
-      gnProject, {
-        correctPathsForScriptArgs,
-        correctPathForCFlagInclude,
-        gnRootTargetName: '//:libperfetto',
-        subprojects: [{
-          name: 'protobuf',
-          file: 'protobuf.gyp',
-          predicate: (targetName) => {
-            return targetName.startsWith('//buildtools:proto');
-          },
-          // setNewName: (targetName: string) => {
-          //   // if (targetName.startsWith('buildtools_')) {
-          //   //   return targetName.slice('buildtools_'.length);
-          //   // }
-          //   return targetName;
-          // },
-          setNewPath: (path: string) => {
-            return path.replace('<(root_relative_to_gypfile)/buildtools/protobuf/', `<(root_relative_to_gypfile)/../protobuf/`);
-          }
-        },
-        {
-          name: 'perfetto',
-          file: 'perfetto_gen.gypi',
-          predicate: (targetName) => !targetName.startsWith('//buildtools:proto'),
-          // setNewName: (x: string) => x,
-          setNewPath: (x: string) => x
-        }]
-      });
-  // const { perfetto, protobuf } = result.split();
-  await fs.writeFile(
-      `${perfettoDir}/gypfiles/perfetto_gen.gypi`, result.toGypFile('perfetto'));
-  await fs.writeFile(
-    `${perfettoDir}/gypfiles/protobuf.gyp`, result.toGypFile('protobuf'));
+/**
+ * Write the GN graph of each build and the GYP graph to the output directory,
+ * as gn_<build>.<format> and gyp.<format>.
+ * @param options Command-line options.
+ * @param config The project configuration.
+ */
+async function graph(options: CliOptions, config: GnToGypConfig) {
+  const result = await convert(options, config);
+  const format = options.graphFormat === 'json' ? toJson : toDot;
+  const graphs = [
+    ...result.getGnGraphs().map(
+        gnGraph => ({file: `gn_${gnGraph.name}`, graph: gnGraph})),
+    {file: 'gyp', graph: result.getGypGraph()}
+  ];
+  for (const {file, graph} of graphs) {
     await fs.writeFile(
-      `${perfettoDir}/gypfiles/empty.gyp`, result.toGypFile('empty'));
+        path.join(options.outDir, `${file}.${options.graphFormat}`),
+        format(graph));
+  }
+}
 
-  const lib = 'perfetto';
+/**
+ * Run gyp on a (previously generated) GYP file, so that errors surface before
+ * the file is consumed by another project.
+ * @param options Command-line options.
+ */
+async function verify(options: CliOptions) {
+  if (!options.gypFile) {
+    throw new Error('verify requires --gyp-file');
+  }
   try {
-    await execa(gypPath, [
-      '-f', 'make',
-      `/Users/kelvinjin/src/node-ci/node-ci/node/deps/${lib}/gypfiles/${
-          lib}.gyp`,
-      '-I', '/Users/kelvinjin/src/node-ci/node-ci/node/common.gypi', '-I',
-      '/Users/kelvinjin/src/node-ci/node-ci/node/config.gypi', '--depth=.',
-      '--generator-output', '/Users/kelvinjin/src/node-ci/node-ci/node/out',
-      '-Goutput_dir=/Users/kelvinjin/src/node-ci/node-ci/node/out',
-      '-Dcomponent=static_library', '-Dlibrary=static_library',
-      '-Dlinux_use_bundled_binutils=0', '-Dlinux_use_bundled_gold=0',
-      '-Dlinux_use_gold_flags=0'
-    ], { cwd: `${__dirname}/../..` });
+    // gyp refuses to run without --depth, so supply one if the user didn't.
+    const depthArgs = options.gypArgs.some(arg => arg.startsWith('--depth')) ?
+        [] :
+        ['--depth=.'];
+    await execa(
+        options.gyp,
+        [...depthArgs, ...options.gypArgs, path.resolve(options.gypFile)]);
   } catch (e) {
-    console.error(e.stderr);
+    throw new Error(`gyp failed on ${options.gypFile}:\n${e.stderr}`);
+  }
+}
+
+async function main(args: string[]) {
+  let parsedArgs;
+  try {
+    parsedArgs = parseArgs(args, process.cwd());
+  } catch (e) {
+    console.error(`${e.message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!parsedArgs) {
+    console.log(USAGE);
+    return;
+  }
+  const {command, options} = parsedArgs;
+  switch (command) {
+    case 'capture':
+      await capture(options, await getConfig(options));
+      break;
+    case 'generate':
+      await generate(options, await getConfig(options));
+      break;
+    case 'graph':
+      await graph(options, await getConfig(options));
+      break;
+    case 'verify':
+      await verify(options);
+      break;
+    default:
+      break;
   }
 }
 
-main(process.argv.slice(2)).catch(console.error);
+main(process.argv.slice(2)).catch(e => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,208 @@
+import {GypFile} from './gyp';
+
+/**
+ * Escape sequences understood in string literals, mapped to the characters
+ * they stand for.
+ */
+const ESCAPES: {[c: string]: string} = {
+  'n': '\n',
+  't': '\t',
+  'r': '\r',
+  '\\': '\\',
+  '\'': '\'',
+  '"': '"',
+  '\n': ''
+};
+
+/**
+ * Literal names, mapped to their values. JSON names are accepted too, since
+ * gyp accepts JSON files.
+ */
+const NAMES: {[name: string]: boolean|null} = {
+  'True': true,
+  'False': false,
+  'None': null,
+  'true': true,
+  'false': false,
+  'null': null
+};
+
+// tslint:disable:no-any
+/**
+ * A helper class that parses a single Python literal, keeping track of the
+ * position in the input for error messages.
+ */
+class GypParser {
+  private index = 0;
+
+  constructor(private readonly source: string, private readonly input: string) {
+  }
+
+  private fail(message: string): never {
+    const consumed = this.input.slice(0, this.index).split('\n');
+    throw new Error(`${this.source}:${consumed.length}:${
+        consumed[consumed.length - 1].length + 1}: ${message}`);
+  }
+
+  /**
+   * Skip whitespace and comments.
+   */
+  private skip() {
+    while (this.index < this.input.length) {
+      const c = this.input[this.index];
+      if (c === '#') {
+        while (this.index < this.input.length &&
+               this.input[this.index] !== '\n') {
+          this.index++;
+        }
+      } else if (/\s/.test(c)) {
+        this.index++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private peek(): string {
+    this.skip();
+    return this.input[this.index];
+  }
+
+  private expect(c: string) {
+    if (this.peek() !== c) {
+      this.fail(`Expected '${c}'`);
+    }
+    this.index++;
+  }
+
+  /**
+   * Parse a sequence of values between brackets, allowing a trailing comma.
+   * @param close The closing bracket.
+   * @param parseElement A function that parses one element.
+   */
+  private parseSequence(close: string, parseElement: () => void) {
+    this.index++;
+    while (this.peek() !== close) {
+      parseElement();
+      if (this.peek() === ',') {
+        this.index++;
+      } else if (this.peek() !== close) {
+        this.fail(`Expected ',' or '${close}'`);
+      }
+    }
+    this.index++;
+  }
+
+  private parseString(): string {
+    const quote = this.input[this.index];
+    const triple = this.input.substr(this.index, 3) === quote.repeat(3);
+    const delimiter = triple ? quote.repeat(3) : quote;
+    this.index += delimiter.length;
+    let result = '';
+    while (this.input.substr(this.index, delimiter.length) !== delimiter) {
+      const c = this.input[this.index];
+      if (c === undefined || (c === '\n' && !triple)) {
+        this.fail('Unterminated string');
+      }
+      if (c === '\\') {
+        const next = this.input[this.index + 1];
+        // Unknown escapes are kept as-is, as in Python.
+        result += ESCAPES.hasOwnProperty(next) ? ESCAPES[next] : `\\${next}`;
+        this.index += 2;
+      } else {
+        result += c;
+        this.index++;
+      }
+    }
+    this.index += delimiter.length;
+    return result;
+  }
+
+  parseValue(): any {
+    const c = this.peek();
+    if (c === undefined) {
+      return this.fail('Unexpected end of input');
+    } else if (c === '{') {
+      const result: any = {};
+      this.parseSequence('}', () => {
+        const key = this.parseValue();
+        if (typeof key !== 'string') {
+          this.fail('Dictionary keys must be strings');
+        }
+        this.expect(':');
+        result[key] = this.parseValue();
+      });
+      return result;
+    } else if (c === '[' || c === '(') {
+      const result: any[] = [];
+      this.parseSequence(
+          c === '[' ? ']' : ')', () => result.push(this.parseValue()));
+      return result;
+    } else if (c === '\'' || c === '"') {
+      // Adjacent string literals are concatenated.
+      let result = '';
+      while (this.peek() === '\'' || this.peek() === '"') {
+        result += this.parseString();
+      }
+      return result;
+    }
+    const match = this.input.slice(this.index).match(/^(-?\d+|[A-Za-z_]\w*)/);
+    if (!match) {
+      return this.fail(`Unexpected character '${c}'`);
+    }
+    this.index += match[0].length;
+    if (/^-?\d/.test(match[0])) {
+      return Number(match[0]);
+    } else if (NAMES.hasOwnProperty(match[0])) {
+      return NAMES[match[0]];
+    }
+    return this.fail(`Unknown name ${match[0]}`);
+  }
+
+  /**
+   * Parse the whole input as a single value.
+   */
+  parse(): any {
+    const result = this.parseValue();
+    if (this.peek() !== undefined) {
+      this.fail('Unexpected content after the end of the file');
+    }
+    return result;
+  }
+}
+
+/**
+ * Parse a Python literal, as found in GYP files: dictionaries, lists, strings,
+ * integers, True, False and None, with comments and trailing commas. JSON is
+ * accepted too.
+ * @param contents The text to parse.
+ * @param source A description of where the text came from, used in error
+ * messages.
+ */
+export function parseGypLiteral(contents: string, source = '<input>'): any {
+  return new GypParser(source, contents).parse();
+}
+
+/**
+ * Parse the contents of a GYP (or .gypi) file.
+ * @param contents The contents of the file.
+ * @param source A description of where the contents came from, used in error
+ * messages.
+ */
+export function parseGypFile(contents: string, source = '<input>'): GypFile {
+  const result = parseGypLiteral(contents, source);
+  if (typeof result !== 'object' || result === null || Array.isArray(result)) {
+    throw new Error(`${source}: A GYP file must contain a dictionary`);
+  }
+  const targets = result.targets;
+  if (targets !== undefined &&
+      (!Array.isArray(targets) ||
+       targets.some(
+           (target: any) => typeof target !== 'object' || target === null ||
+               typeof target.target_name !== 'string'))) {
+    throw new Error(
+        `${source}: targets must be a list of dictionaries with target_name`);
+  }
+  return result as GypFile;
+}
+// tslint:enable:no-any
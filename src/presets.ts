@@ -0,0 +1,66 @@
+import {GnToGypConfig} from './config';
+
+/**
+ * Built-in project configurations, keyed by name.
+ */
+export const PRESETS: {[name: string]: GnToGypConfig} = {
+  /**
+   * Places every target in a single GYP file, and passes script arguments
+   * through as-is.
+   */
+  default: {subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]},
+  /**
+   * Options for building Perfetto (https://perfetto.dev) as a part of Node.
+   */
+  perfetto: {
+    rootTarget: '//:libperfetto',
+    toolsets: {
+      '//gn/standalone/toolchain:gcc_like_host': 'host',
+      '//gn/standalone/toolchain:gcc_like': 'target'
+    },
+    // Build configuration targets are replaced by the embedder's, except for
+    // protoc, which is needed for code generation.
+    exclude: {targets: ['//gn*'], exceptTargets: ['//gn:protoc*']},
+    subprojects: [
+      {
+        name: 'protobuf',
+        file: 'protobuf.gyp',
+        targets: ['//buildtools:proto*'],
+        pathRewrites: [{
+          prefix: '<(root_relative_to_gypfile)/buildtools/protobuf/',
+          replacement: '<(root_relative_to_gypfile)/../protobuf/'
+        }]
+      },
+      {
+        name: 'perfetto',
+        file: 'perfetto_gen.gypi',
+        targets: ['//*'],
+        excludeTargets: ['//buildtools:proto*']
+      }
+    ],
+    includeRewrites: [{
+      prefix: '../../buildtools/googletest/googletest/include',
+      replacement: '<(root_relative_to_gypfile)/../gtest/include'
+    }],
+    scriptArgs: {
+      '//gn/standalone/build_tool_wrapper.py': [
+        {kind: 'flag', flag: '--plugin', separator: '='},
+        {kind: 'flag', flag: '--plugin_out', separator: ':'},
+        // Other flags are left as-is.
+        {kind: 'literal', match: '^--'}, {kind: 'path'}
+      ]
+    }
+  }
+};
+
+/**
+ * Get the preset with the given name, or throw if there isn't one.
+ * @param name The preset name.
+ */
+export function getPreset(name: string): GnToGypConfig {
+  if (!PRESETS.hasOwnProperty(name)) {
+    throw new Error(`Unknown preset ${name} (expected one of: ${
+        Object.keys(PRESETS).join(', ')})`);
+  }
+  return PRESETS[name];
+}
@@ -0,0 +1,169 @@
+import {compareStrings} from './util';
+
+/**
+ * The indentation used for each level of nesting.
+ */
+const INDENT = '  ';
+
+/**
+ * The order in which well-known GYP keys are printed. Other keys are printed
+ * after these, in alphabetical order.
+ */
+const KEY_ORDER = [
+  'variables',
+  'includes',
+  'target_name',
+  'type',
+  'product_name',
+  'toolsets',
+  'hard_dependency',
+  'dependencies',
+  'export_dependent_settings',
+  'defines',
+  'include_dirs',
+  'cflags',
+  'cflags_c',
+  'cflags_cc',
+  'cflags_objc',
+  'cflags_objcc',
+  'xcode_settings',
+  'sources',
+  'action_name',
+  'rule_name',
+  'extension',
+  'inputs',
+  'outputs',
+  'action',
+  'actions',
+  'rules',
+  'destination',
+  'files',
+  'copies',
+  'link_settings',
+  'direct_dependent_settings',
+  'all_dependent_settings',
+  'configurations',
+  'conditions',
+  'target_conditions',
+  'targets'
+];
+
+// tslint:disable:no-any
+/**
+ * A function that returns comment lines to print before an element of the
+ * top-level targets list.
+ */
+export type GetTargetComments = (target: any) => string[];
+
+/**
+ * Compare two keys of a GYP dictionary, in the order they should be printed.
+ * @param a The first key.
+ * @param b The second key.
+ */
+function compareKeys(a: string, b: string): number {
+  const aIndex = KEY_ORDER.indexOf(a);
+  const bIndex = KEY_ORDER.indexOf(b);
+  if (aIndex === -1 && bIndex === -1) {
+    return compareStrings(a, b);
+  } else if (aIndex === -1) {
+    return 1;
+  } else if (bIndex === -1) {
+    return -1;
+  }
+  return aIndex - bIndex;
+}
+
+/**
+ * Returns whether a value is printed without nesting.
+ * @param value The value.
+ */
+function isScalar(value: any): boolean {
+  return value === null || typeof value !== 'object';
+}
+
+/**
+ * Given a scalar value, return it as a Python literal.
+ * @param value The value.
+ */
+function formatScalar(value: any): string {
+  if (typeof value === 'string') {
+    return `'${
+        value.replace(/\\/g, '\\\\')
+            .replace(/'/g, '\\\'')
+            .replace(/\n/g, '\\n')}'`;
+  } else if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  } else if (value === null || value === undefined) {
+    return 'None';
+  }
+  return `${value}`;
+}
+
+/**
+ * Given a value, return it as a Python literal in the style of hand-written
+ * GYP files: single-quoted strings, one list element or dictionary entry per
+ * line, and trailing commas.
+ * @param value The value.
+ * @param indent The indentation of the line on which the value starts.
+ * @param getTargetComments If given, the value is a dictionary whose targets
+ * are preceded by the comments this function returns.
+ */
+function formatValue(
+    value: any, indent: string, getTargetComments?: GetTargetComments): string {
+  if (isScalar(value)) {
+    return formatScalar(value);
+  }
+  const inner = `${indent}${INDENT}`;
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    if (value.length === 1 && isScalar(value[0])) {
+      return `[${formatScalar(value[0])}]`;
+    }
+    // Conditions are printed as ['condition', {...}, {...}].
+    if (typeof value[0] === 'string' &&
+        value.slice(1).every((e: any) => !isScalar(e) && !Array.isArray(e))) {
+      return `[${formatScalar(value[0])}, ${
+          value.slice(1).map((e: any) => formatValue(e, indent)).join(', ')}]`;
+    }
+    const lines = ['['];
+    for (const e of value) {
+      for (const comment of getTargetComments ? getTargetComments(e) : []) {
+        lines.push(`${inner}# ${comment}`);
+      }
+      lines.push(`${inner}${formatValue(e, inner)},`);
+    }
+    lines.push(`${indent}]`);
+    return lines.join('\n');
+  }
+  const keys = Object.keys(value)
+                   .filter(key => value[key] !== undefined)
+                   .sort(compareKeys);
+  if (keys.length === 0) {
+    return '{}';
+  }
+  return [
+    '{',
+    ...keys.map(
+        key => `${inner}${formatScalar(key)}: ${
+            formatValue(
+                value[key], inner,
+                key === 'targets' ? getTargetComments : undefined)},`),
+    `${indent}}`
+  ].join('\n');
+}
+
+/**
+ * Given the contents of a GYP file, return it as a Python literal in the style
+ * of hand-written GYP files, with keys in a stable order.
+ * @param gyp The contents of the GYP file.
+ * @param header A comment to print at the top of the file.
+ * @param getTargetComments A function that returns comment lines to print
+ * before each target.
+ */
+export function formatGypFile(
+    gyp: {}, header: string, getTargetComments?: GetTargetComments): string {
+  return `# ${header}\n${formatValue(gyp, '', getTargetComments)}\n`;
+}
+// tslint:enable:no-any
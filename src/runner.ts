@@ -0,0 +1,103 @@
+import {pool} from './util';
+
+import execa = require('execa');
+
+/**
+ * The queries that GnProject.fromDirectory makes of gn. Each method resolves
+ * to what gn would print to stdout, and rejects if gn would fail.
+ */
+export interface GnRunner {
+  /**
+   * Return the output of `gn --version`.
+   */
+  version(): Promise<string>;
+  /**
+   * Return the output of
+   * `gn desc out/<build> <pattern> --all-toolchains --format=json`.
+   * @param projectDir The directory that contains the GN project.
+   * @param build The build to describe.
+   * @param pattern A target or config label, or '//*' for every target.
+   */
+  describeTargets(projectDir: string, build: string, pattern: string):
+      Promise<string>;
+}
+
+/**
+ * A GnRunner that runs the gn executable on the PATH.
+ */
+export class ExecaGnRunner implements GnRunner {
+  private readonly stdout: typeof execa.stdout;
+
+  /**
+   * @param poolSize The most gn processes to run at once.
+   */
+  constructor(poolSize = 8) {
+    this.stdout = pool(execa.stdout, poolSize) as typeof execa.stdout;
+  }
+
+  async version(): Promise<string> {
+    return this.stdout('gn', ['--version']);
+  }
+
+  async describeTargets(projectDir: string, build: string, pattern: string):
+      Promise<string> {
+    return this.stdout(
+        'gn',
+        ['desc', `out/${build}`, pattern, '--all-toolchains', '--format=json'],
+        {cwd: projectDir, maxBuffer: 1024 * 1024 * 1024});
+  }
+}
+
+/**
+ * What gn reported for a single build.
+ */
+export interface RecordedGnBuild {
+  /**
+   * Descriptions of targets and configs, keyed by label, as printed by
+   * `gn desc out/<build> <label> --all-toolchains --format=json`. Like gn,
+   * '//*' matches only targets, which are the descriptions with a type.
+   */
+  targets: {[label: string]: {type?: string}};
+}
+
+/**
+ * A GnRunner that answers queries from recorded gn output instead of running
+ * gn, so that the project directory doesn't need to exist.
+ */
+export class InMemoryGnRunner implements GnRunner {
+  /**
+   * @param builds The recorded output for each build, keyed by build name.
+   * @param gnVersion The output of `gn --version`.
+   */
+  constructor(
+      private readonly builds: {[build: string]: RecordedGnBuild},
+      private readonly gnVersion = 'unknown') {}
+
+  private getBuild(build: string): RecordedGnBuild {
+    if (!this.builds.hasOwnProperty(build)) {
+      throw new Error(`out/${build} is not a build directory`);
+    }
+    return this.builds[build];
+  }
+
+  async version(): Promise<string> {
+    return this.gnVersion;
+  }
+
+  async describeTargets(projectDir: string, build: string, pattern: string):
+      Promise<string> {
+    const {targets} = this.getBuild(build);
+    if (pattern === '//*') {
+      const result: {[label: string]: {}} = {};
+      for (const label of Object.keys(targets)) {
+        if (targets[label].type) {
+          result[label] = targets[label];
+        }
+      }
+      return JSON.stringify(result);
+    } else if (!targets.hasOwnProperty(pattern)) {
+      throw new Error(`${pattern} is not defined in out/${build}`);
+    }
+    return JSON.stringify({[pattern]: targets[pattern]});
+  }
+}
@@ -38,8 +38,18 @@ export function removeDuplicates<T>(arr: T[], e: T) {
   return arr;
 }
 
+/**
+ * Array#sort function that orders strings by UTF-16 code units, as the default
+ * sort does, so that the order doesn't depend on the locale.
+ * @param a The first string.
+ * @param b The second string.
+ */
+export function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
 export function splitByMappedValue<T>(
-  arr: T[], fn: (arg: T) => {}): {[k: string]: T[]} {
+    arr: T[], fn: (arg: T) => {}): {[k: string]: T[]} {
   const result: {[k: string]: T[]} = {};
   for (const arg of arr) {
     const key = `${fn(arg)}`;
@@ -160,3 +170,128 @@ export function pool<S extends any[], T>(
   };
 }
 // tslint:enable:no-any
+
+/**
+ * Given two ranges of lines that differ at both ends, return a point at which
+ * a shortest edit script between them can be split, found by searching from
+ * both ends at once (Myers' linear space refinement). Returns null if the
+ * ranges have no lines in common.
+ * @param a The original lines.
+ * @param b The new lines.
+ * @param aStart The start of the range of original lines.
+ * @param aEnd The end of the range of original lines.
+ * @param bStart The start of the range of new lines.
+ * @param bEnd The end of the range of new lines.
+ */
+function findDiffSplit(
+    a: string[], b: string[], aStart: number, aEnd: number, bStart: number,
+    bEnd: number): [number, number]|null {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  // forward[offset + k] is the furthest x reached from the start on diagonal
+  // k = x - y, and backward[offset + k] the same from the end.
+  const offset = maxD;
+  const forward = new Array(2 * maxD + 2).fill(-1);
+  const backward = new Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // If the difference in lengths is odd, the paths meet in a forward step.
+  const front = delta % 2 !== 0;
+  // Diagonals that have run off the grid aren't searched again.
+  let kForwardStart = 0;
+  let kForwardEnd = 0;
+  let kBackwardStart = 0;
+  let kBackwardEnd = 0;
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + kForwardStart; k <= d - kForwardEnd; k += 2) {
+      let x = k === -d ||
+              (k !== d && forward[offset + k - 1] < forward[offset + k + 1]) ?
+          forward[offset + k + 1] :
+          forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) {
+        kForwardEnd += 2;
+      } else if (y > m) {
+        kForwardStart += 2;
+      } else if (front) {
+        const reverseX = backward[offset + delta - k];
+        if (reverseX !== undefined && reverseX !== -1 && x >= n - reverseX) {
+          return [aStart + x, bStart + y];
+        }
+      }
+    }
+    for (let k = -d + kBackwardStart; k <= d - kBackwardEnd; k += 2) {
+      let x = k === -d ||
+              (k !== d && backward[offset + k - 1] < backward[offset + k + 1]) ?
+          backward[offset + k + 1] :
+          backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) {
+        kBackwardEnd += 2;
+      } else if (y > m) {
+        kBackwardStart += 2;
+      } else if (!front) {
+        const forwardX = forward[offset + delta - k];
+        if (forwardX !== undefined && forwardX !== -1 && forwardX >= n - x) {
+          return [aStart + forwardX, bStart + forwardX - (delta - k)];
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Return a line-by-line diff between two lists of lines, in which unchanged
+ * lines are prefixed with ' ', removed lines with '-', and added lines with
+ * '+'. Memory use is linear in the number of lines.
+ * @param a The original lines.
+ * @param b The new lines.
+ */
+export function diffLines(a: string[], b: string[]): string[] {
+  const result: string[] = [];
+  const diffRanges =
+      (aStart: number, aEnd: number, bStart: number, bEnd: number) => {
+        while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+          result.push(` ${a[aStart++]}`);
+          bStart++;
+        }
+        let commonSuffix = 0;
+        while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+          aEnd--;
+          bEnd--;
+          commonSuffix++;
+        }
+        const split = aStart < aEnd && bStart < bEnd ?
+            findDiffSplit(a, b, aStart, aEnd, bStart, bEnd) :
+            null;
+        if (split) {
+          diffRanges(aStart, split[0], bStart, split[1]);
+          diffRanges(split[0], aEnd, split[1], bEnd);
+        } else {
+          for (let i = aStart; i < aEnd; i++) {
+            result.push(`-${a[i]}`);
+          }
+          for (let j = bStart; j < bEnd; j++) {
+            result.push(`+${b[j]}`);
+          }
+        }
+        for (let i = aEnd; i < aEnd + commonSuffix; i++) {
+          result.push(` ${a[i]}`);
+        }
+      };
+  diffRanges(0, a.length, 0, b.length);
+  return result;
+}
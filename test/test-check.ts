@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+
+import {diffGypFile, findLeftoverGypFiles} from '../src/check';
+
+const HEADER = '# This file is automatically generated -- do not edit!\n';
+
+describe('diffGypFile', () => {
+  it('reports nothing for identical files', () => {
+    assert.deepStrictEqual(diffGypFile('a.gyp', HEADER, HEADER), []);
+  });
+
+  it('reports missing files', () => {
+    assert.deepStrictEqual(
+        diffGypFile('a.gyp', HEADER, null), ['a.gyp doesn\'t exist']);
+  });
+});
+
+describe('findLeftoverGypFiles', () => {
+  it('finds generated files that would no longer be generated', () => {
+    const files = [
+      {file: 'empty.gyp', contents: `${HEADER}{}`},
+      {file: 'gn_gen.gyp', contents: `${HEADER}{}`},
+      {file: 'common.gypi', contents: '{}'}
+    ];
+    assert.deepStrictEqual(
+        findLeftoverGypFiles(files, ['gn_gen.gyp']), ['empty.gyp']);
+  });
+});
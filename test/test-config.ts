@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+
+import {applyScriptArgRules, ScriptArgRule, toGypProjectOptions, validateConfig} from '../src/config';
+
+const gypifyBuildPath = (buildPath: string) => `<(gyp)/${buildPath}`;
+
+describe('applyScriptArgRules', () => {
+  it('converts paths that don\'t look like flags by default', () => {
+    const rules: ScriptArgRule[] = [{kind: 'path'}];
+    assert.strictEqual(
+        applyScriptArgRules(rules, 'gen/a.h', gypifyBuildPath),
+        '<(gyp)/gen/a.h');
+    assert.strictEqual(
+        applyScriptArgRules(rules, '--verbose', gypifyBuildPath), null);
+  });
+
+  it('converts paths that match the given pattern', () => {
+    const rules: ScriptArgRule[] = [{kind: 'path', match: '\\.h$'}];
+    assert.strictEqual(
+        applyScriptArgRules(rules, 'gen/a.h', gypifyBuildPath),
+        '<(gyp)/gen/a.h');
+    assert.strictEqual(
+        applyScriptArgRules(rules, 'gen/a.cc', gypifyBuildPath), null);
+  });
+
+  it('converts the values of flags', () => {
+    const rules: ScriptArgRule[] = [{kind: 'flag', flag: '--out'}];
+    assert.strictEqual(
+        applyScriptArgRules(rules, '--out=gen', gypifyBuildPath),
+        '--out=<(gyp)/gen');
+    assert.strictEqual(
+        applyScriptArgRules(rules, '--output=gen', gypifyBuildPath), null);
+  });
+
+  it('converts the paths following the separator in flags', () => {
+    const rules: ScriptArgRule[] =
+        [{kind: 'flag', flag: '--plugin_out', separator: ':'}];
+    assert.strictEqual(
+        applyScriptArgRules(
+            rules, '--plugin_out=a=b:c:gen/proto', gypifyBuildPath),
+        '--plugin_out=a=b:c:<(gyp)/gen/proto');
+    assert.strictEqual(
+        applyScriptArgRules(rules, '--plugin_out=gen/proto', gypifyBuildPath),
+        null);
+  });
+
+  it('passes through literals', () => {
+    assert.strictEqual(
+        applyScriptArgRules([{kind: 'literal'}], 'gen/a.h', gypifyBuildPath),
+        'gen/a.h');
+    assert.strictEqual(
+        applyScriptArgRules(
+            [{kind: 'literal', match: '^--'}], 'gen/a.h', gypifyBuildPath),
+        null);
+  });
+
+  it('rewrites arguments', () => {
+    const rules: ScriptArgRule[] = [
+      {prefix: '--root=', replacement: '--root=<(DEPTH)/'},
+      {regex: '^-D(\\w+)=gen$', replacement: '-D$1=<(gen)'}
+    ];
+    assert.strictEqual(
+        applyScriptArgRules(rules, '--root=src', gypifyBuildPath),
+        '--root=<(DEPTH)/src');
+    assert.strictEqual(
+        applyScriptArgRules(rules, '-DOUT=gen', gypifyBuildPath),
+        '-DOUT=<(gen)');
+    assert.strictEqual(
+        applyScriptArgRules(rules, '-DOUT=src', gypifyBuildPath), null);
+  });
+
+  it('applies the first rule that matches', () => {
+    const rules: ScriptArgRule[] =
+        [{kind: 'literal', match: '^gen/'}, {kind: 'path'}];
+    assert.strictEqual(
+        applyScriptArgRules(rules, 'gen/a.h', gypifyBuildPath), 'gen/a.h');
+    assert.strictEqual(
+        applyScriptArgRules(rules, 'src/a.h', gypifyBuildPath),
+        '<(gyp)/src/a.h');
+  });
+});
+
+describe('toGypProjectOptions', () => {
+  it('leaves arguments that no rule matches to be reported', () => {
+    const options = toGypProjectOptions({
+      rootTarget: '//:all',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}],
+      scriptArgs: {'//gen.py': [{kind: 'flag', flag: '--out'}]}
+    });
+    const correctPaths = options.correctPathsForScriptArgs!;
+    assert.deepStrictEqual(
+        correctPaths('//gen.py', ['--out=gen', '--name=a'], gypifyBuildPath),
+        ['--out=<(gyp)/gen', null]);
+    assert.deepStrictEqual(
+        correctPaths('//other.py', ['--out=gen'], gypifyBuildPath), [null]);
+  });
+});
+
+/**
+ * Assert that validating the given config fails with the given message.
+ * @param value The config.
+ * @param message The expected message, without the config's source.
+ */
+function assertInvalid(value: {}, message: string) {
+  assert.throws(
+      () => validateConfig(value, 'config.json'),
+      (e: Error) => e.message === `Invalid config config.json: ${message}`);
+}
+
+describe('validateConfig', () => {
+  const subprojects = [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}];
+
+  it('accepts a valid config', () => {
+    const config = {
+      subprojects,
+      exclude: {targets: ['//third_party/*'], testonly: true},
+      scriptArgs:
+          {'//gen.py': [{kind: 'path'}, {prefix: 'a', replacement: 'b'}]}
+    };
+    assert.deepStrictEqual(validateConfig(config, 'config.json'), config);
+  });
+
+  it('rejects label patterns that aren\'t labels', () => {
+    assertInvalid(
+        {subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['*']}]},
+        'subprojects[0].targets[0] ("*") must start with //');
+  });
+
+  it('rejects unknown keys', () => {
+    assertInvalid(
+        {subprojects, root: '//:all'}, 'top level has unknown field "root"');
+    assertInvalid(
+        {subprojects, exclude: {target: ['//a']}},
+        'exclude has unknown field "target"');
+  });
+
+  it('rejects excluded targets that aren\'t labels', () => {
+    assertInvalid(
+        {subprojects, exclude: {targets: ['//a', 'b']}},
+        'exclude.targets[1] ("b") must start with //');
+  });
+
+  it('rejects invalid script argument rules', () => {
+    assertInvalid(
+        {subprojects, scriptArgs: {'//gen.py': [{kind: 'file'}]}},
+        'scriptArgs["//gen.py"][0].kind must be "path", "flag" or "literal"');
+    assertInvalid(
+        {subprojects, scriptArgs: {'//gen.py': [{prefix: 'a'}]}},
+        'scriptArgs["//gen.py"][0].replacement must be a string');
+  });
+});
@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import {readFileSync} from 'fs';
+import * as path from 'path';
+
+import {toGypProjectOptions} from '../src/config';
+import {GnCaptureStats, GnProject} from '../src/gn';
+import {GypProject} from '../src/gyp';
+import {InMemoryGnRunner, RecordedGnBuild} from '../src/runner';
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'test', 'fixtures');
+
+const TARGET_TOOLCHAIN = '//build/toolchain:target';
+const HOST_TOOLCHAIN = '//build/toolchain:host';
+
+/**
+ * Read the recorded descriptions of the targets and configs in the crawl
+ * fixture.
+ */
+function readCrawlFixture(): RecordedGnBuild {
+  return {
+    targets:
+        JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'crawl.json'), 'utf8'))
+  };
+}
+
+/**
+ * An InMemoryGnRunner that records the patterns it was asked to describe.
+ */
+class RecordingGnRunner extends InMemoryGnRunner {
+  readonly described: string[] = [];
+
+  async describeTargets(projectDir: string, build: string, pattern: string):
+      Promise<string> {
+    this.described.push(pattern);
+    return super.describeTargets(projectDir, build, pattern);
+  }
+}
+
+describe('GnProject.fromDirectory', () => {
+  // The project directory doesn't exist, so nothing is read from disk.
+  const projectDir = '/nonexistent';
+
+  it('crawls dependencies recursively, starting from //:all', async () => {
+    const runner = new RecordingGnRunner({debug: readCrawlFixture()});
+    const stats: GnCaptureStats[] = [];
+    const gnProject = await GnProject.fromDirectory(
+        projectDir, ['debug'],
+        {strategy: 'crawl', runner, onStats: s => stats.push(s)});
+    const gnBuild = gnProject.getBuild('debug');
+    for (const name
+             of ['//:app', '//base:base', '//base:util', '//:gen',
+                 '//tools:compiler(//build/toolchain:host)',
+                 '//base:util(//build/toolchain:host)']) {
+      assert.ok(gnBuild.getTargetNames().indexOf(name) !== -1, name);
+    }
+    // Targets that //:all doesn't reach aren't described.
+    assert.strictEqual(gnBuild.getTargetNames().indexOf('//:unused'), -1);
+    assert.strictEqual(runner.described.indexOf('//:unused'), -1);
+    // Each label is described exactly once.
+    assert.deepStrictEqual(
+        runner.described.slice().sort(),
+        runner.described.filter((x, i, arr) => arr.indexOf(x) === i).sort());
+    assert.strictEqual(stats.length, 1);
+    assert.strictEqual(stats[0].strategy, 'crawl');
+    assert.strictEqual(stats[0].invocations, runner.described.length);
+    assert.strictEqual(stats[0].targets, gnBuild.getTargetNames().length);
+  });
+
+  it('describes configs with the toolchain of the target using them',
+     async () => {
+       const runner = new RecordingGnRunner({debug: readCrawlFixture()});
+       const gnProject = await GnProject.fromDirectory(
+           projectDir, ['debug'], {strategy: 'crawl', runner});
+       const gnBuild = gnProject.getBuild('debug');
+       assert.ok(
+           runner.described.indexOf(
+               '//build:defaults(//build/toolchain:host)') !== -1);
+       assert.ok(
+           runner.described.indexOf(
+               '//base:util_all(//build/toolchain:host)') !== -1);
+       assert.deepStrictEqual(
+           gnBuild.getTarget(HOST_TOOLCHAIN, '//build:defaults').cflags,
+           ['-O0']);
+       assert.deepStrictEqual(
+           gnBuild.getTarget(TARGET_TOOLCHAIN, '//build:defaults').cflags,
+           ['-O2']);
+     });
+
+  it('produces the same build when describing all targets at once',
+     async () => {
+       const builds = {debug: readCrawlFixture()};
+       const crawled = await GnProject.fromDirectory(
+           projectDir, ['debug'],
+           {strategy: 'crawl', runner: new InMemoryGnRunner(builds)});
+       const stats: GnCaptureStats[] = [];
+       const bulk = await GnProject.fromDirectory(projectDir, ['debug'], {
+         strategy: 'bulk',
+         runner: new InMemoryGnRunner(builds),
+         onStats: s => stats.push(s)
+       });
+       // One invocation describes every target, and the five configs are
+       // described one at a time.
+       assert.strictEqual(stats[0].invocations, 6);
+       assert.strictEqual(
+           GnProject.serialize(bulk), GnProject.serialize(crawled));
+     });
+
+  it('describes configs after all targets at once', async () => {
+    const runner = new RecordingGnRunner({debug: readCrawlFixture()});
+    const allTargets =
+        JSON.parse(await runner.describeTargets(projectDir, 'debug', '//*'));
+    // Like gn, the runner doesn't match configs against patterns.
+    assert.strictEqual(allTargets['//build:defaults'], undefined);
+    runner.described.length = 0;
+    const gnProject = await GnProject.fromDirectory(
+        projectDir, ['debug'], {strategy: 'bulk', runner});
+    const gnBuild = gnProject.getBuild('debug');
+    assert.deepStrictEqual(runner.described.slice().sort(), [
+      '//*', '//base:base_public', '//base:util_all',
+      '//base:util_all(//build/toolchain:host)', '//build:defaults',
+      '//build:defaults(//build/toolchain:host)'
+    ]);
+    assert.deepStrictEqual(
+        gnBuild.getTarget(HOST_TOOLCHAIN, '//build:defaults').cflags, ['-O0']);
+    assert.deepStrictEqual(
+        gnBuild.getTarget(TARGET_TOOLCHAIN, '//base:base_public').include_dirs,
+        ['//base/include/']);
+  });
+
+  it('rejects a description with more than one key', async () => {
+    const runner = new InMemoryGnRunner({debug: readCrawlFixture()});
+    runner.describeTargets = async () =>
+        JSON.stringify({'//:all': {}, '//:app': {}});
+    await assert.rejects(
+        GnProject.fromDirectory(
+            projectDir, ['debug'], {strategy: 'crawl', runner}),
+        /more than one key/);
+  });
+
+  it('rejects a missing target when crawling', async () => {
+    const recorded = readCrawlFixture();
+    delete recorded.targets['//base:util'];
+    await assert.rejects(
+        GnProject.fromDirectory(projectDir, ['debug'], {
+          strategy: 'crawl',
+          runner: new InMemoryGnRunner({debug: recorded})
+        }),
+        /\/\/base:util is not defined in out\/debug/);
+  });
+});
+
+describe('GnProject.fromIdeJson', () => {
+  const projectDir = path.join(FIXTURES_DIR, 'ide');
+
+  it('converts the same way after a round trip through the cache', async () => {
+    const gnProject = await GnProject.fromDirectory(
+        projectDir, ['debug'],
+        {strategy: 'ide', runner: new InMemoryGnRunner({})});
+    const cached = GnProject.deserialize(GnProject.serialize(gnProject));
+    // The unused //build/toolchain:nacl is left out.
+    assert.deepStrictEqual(
+        gnProject.getBuild('debug').getToolchains(),
+        [HOST_TOOLCHAIN, TARGET_TOOLCHAIN]);
+    assert.deepStrictEqual(
+        cached.getBuild('debug').getToolchains(),
+        gnProject.getBuild('debug').getToolchains());
+    const options = toGypProjectOptions({
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    });
+    assert.strictEqual(
+        GypProject.fromGnProject(cached, options).toGypFile('gn'),
+        GypProject.fromGnProject(gnProject, options).toGypFile('gn'));
+  });
+
+  it('isn\'t captured again while its inputs are unchanged', async () => {
+    const runner = new InMemoryGnRunner({});
+    const gnProject = await GnProject.fromDirectory(
+        projectDir, ['debug'], {strategy: 'ide', runner});
+    assert.notStrictEqual(gnProject.getBuild('debug').getFingerprint(), '');
+    const stats: GnCaptureStats[] = [];
+    const updated = await GnProject.update(
+        gnProject, projectDir, ['debug'],
+        {strategy: 'ide', runner, onStats: s => stats.push(s)});
+    assert.deepStrictEqual(stats, []);
+    assert.strictEqual(updated.getBuild('debug'), gnProject.getBuild('debug'));
+    // A different version of gn describes builds differently.
+    await GnProject.update(gnProject, projectDir, ['debug'], {
+      strategy: 'ide',
+      runner: new InMemoryGnRunner({}, '1234'),
+      onStats: s => stats.push(s)
+    });
+    assert.strictEqual(stats.length, 1);
+  });
+});
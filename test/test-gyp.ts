@@ -0,0 +1,801 @@
+import * as assert from 'assert';
+import {readFileSync} from 'fs';
+import * as path from 'path';
+
+import {GnToGypConfig, toGypProjectOptions} from '../src/config';
+import {GnProject} from '../src/gn';
+import {toDot, toJson} from '../src/graph';
+import {GypFields, GypProject, GypTarget} from '../src/gyp';
+import {parseGypFile} from '../src/parser';
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'test', 'fixtures');
+
+/**
+ * Convert a fixture, which holds serialized GN builds, to a GYP project.
+ * @param fixture The name of the fixture file.
+ * @param config The project configuration.
+ */
+function convertFixture(fixture: string, config: GnToGypConfig): GypProject {
+  const gnProject = GnProject.deserialize(
+      readFileSync(path.join(FIXTURES_DIR, fixture), 'utf8'));
+  return GypProject.fromGnProject(gnProject, toGypProjectOptions(config));
+}
+
+/**
+ * Return the targets of a subproject, keyed by name.
+ * @param gypProject The GYP project.
+ * @param name The name of the subproject.
+ */
+function getTargets(
+    gypProject: GypProject, name: string): {[name: string]: GypTarget} {
+  const targets: GypTarget[] =
+      parseGypFile(gypProject.toGypFile(name)).targets || [];
+  const result: {[name: string]: GypTarget} = {};
+  for (const target of targets) {
+    result[target.target_name] = target;
+  }
+  return result;
+}
+
+/**
+ * Return whether any fields nested under target_conditions set dependencies.
+ * @param fields The fields to search.
+ * @param late Whether the fields are under target_conditions.
+ */
+function hasLateDependencies(
+    fields: GypFields&Pick<GypTarget, 'target_conditions'>,
+    late = false): boolean {
+  const nested = (conditions?: Array<[string, GypFields]>) =>
+      (conditions || []).map(([_, nestedFields]) => nestedFields);
+  return (late && !!fields.dependencies) ||
+      nested(fields.conditions)
+          .some(nestedFields => hasLateDependencies(nestedFields, late)) ||
+      nested(fields.target_conditions)
+          .some(nestedFields => hasLateDependencies(nestedFields, true));
+}
+
+describe('GypProject.fromGnProject', () => {
+  describe('with targets built for more than one toolset', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      toolsets: {
+        '//build/toolchain:host': 'host',
+        '//build/toolchain:target': 'target'
+      },
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('never places dependencies under target_conditions', () => {
+      const targets = getTargets(convertFixture('toolsets.json', config), 'gn');
+      for (const name of Object.keys(targets)) {
+        assert.ok(!hasLateDependencies(targets[name]), name);
+      }
+    });
+
+    it('conditions per-configuration dependencies on the toolset', () => {
+      const lib =
+          getTargets(convertFixture('toolsets.json', config), 'gn')._lib;
+      assert.deepStrictEqual(lib.toolsets, ['host', 'target']);
+      assert.deepStrictEqual(lib.conditions, [
+        ['_toolset=="target"', {dependencies: ['_gen']}],
+        [
+          '_toolset=="host" and gn_configuration=="Debug"',
+          {dependencies: ['_dbg#host']}
+        ],
+        [
+          '_toolset=="target" and gn_configuration=="Debug"',
+          {dependencies: ['_dbg#target']}
+        ]
+      ]);
+    });
+
+    it('lets a host tool feed an action in the target toolset', () => {
+      const gypProject = convertFixture('toolsets.json', config);
+      const targets = getTargets(gypProject, 'gn');
+      assert.deepStrictEqual(targets._gen.toolsets, ['target']);
+      assert.deepStrictEqual(targets._gen.dependencies, ['tools_tool#host']);
+      assert.deepStrictEqual(targets.tools_tool.toolsets, ['host']);
+      const copy = {
+        destination: '<(SHARED_INTERMEDIATE_DIR)/host',
+        files: ['<(PRODUCT_DIR)/tool']
+      };
+      assert.deepStrictEqual(targets.tools_tool.copies, [copy]);
+      assert.strictEqual(
+          targets._gen.actions![0].action[2],
+          '<(SHARED_INTERMEDIATE_DIR)/host/tool');
+      assert.deepStrictEqual(gypProject.validate(), []);
+    });
+  });
+
+  describe('with toolsets that aren\'t configured', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('maps the only toolchain besides the default to host', () => {
+      const targets = getTargets(convertFixture('toolsets.json', config), 'gn');
+      assert.deepStrictEqual(targets._gen.toolsets, ['target']);
+      assert.deepStrictEqual(targets._gen.dependencies, ['tools_tool#host']);
+    });
+
+    it('requires them when there are several toolchains besides the default',
+       () => {
+         assert.throws(
+             () => convertFixture('toolchains.json', config),
+             /Can't infer a GYP toolset .* specify it in the toolsets option/);
+         const toolsets = {
+           '//build/toolchain/linux:clang_x64': 'host',
+           '//build/toolchain/linux:clang_x86_v8_arm64': 'host'
+         };
+         const targets = getTargets(
+             convertFixture(
+                 'toolchains.json', Object.assign({toolsets}, config)),
+             'gn');
+         assert.deepStrictEqual(
+             targets._lib.dependencies,
+             ['_snapshot#target', 'tools_protoc#host']);
+         assert.deepStrictEqual(
+             targets._snapshot.dependencies, ['tools_mksnapshot#host']);
+       });
+  });
+
+  describe('with GYP target names that collide', () => {
+    /**
+     * Return the GYP target names chosen for each GN target in the naming
+     * fixture, and the GYP targets themselves.
+     * @param targetNaming How colliding names are disambiguated.
+     */
+    function convertNamingFixture(targetNaming: 'hash'|'path') {
+      const gypProject = convertFixture('naming.json', {
+        rootTarget: '//:lib',
+        targetNaming,
+        subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+      });
+      const names: {[gnTargetName: string]: string} = {};
+      gypProject.getGypTargetNames().forEach((gypTargetName, gnTargetName) => {
+        names[gnTargetName] = gypTargetName;
+      });
+      return {names, targets: getTargets(gypProject, 'gn'), gypProject};
+    }
+
+    it('appends a hash of the GN target name', () => {
+      const {names} = convertNamingFixture('hash');
+      assert.deepStrictEqual(names, {
+        '//:lib': '_lib',
+        '//a:b_c': 'a_b_c_6426adf1',
+        '//a_b:c': 'a_b_c_59ea340a',
+        '//x:y': 'x_y_1bb70989',
+        '//x:y_proxy': 'x_y_proxy_6502580e'
+      });
+    });
+
+    it('escapes the GN target name', () => {
+      const {names} = convertNamingFixture('path');
+      assert.deepStrictEqual(names, {
+        '//:lib': '_lib',
+        '//a:b_c': 'a_cb__c',
+        '//a_b:c': 'a__b_cc',
+        '//x:y': 'x_cy',
+        '//x:y_proxy': 'x_cy__proxy'
+      });
+    });
+
+    for (const targetNaming of ['hash', 'path'] as Array<'hash'|'path'>) {
+      it(`refers to renamed targets in dependencies and proxies (${
+             targetNaming})`,
+         () => {
+           const {names, targets, gypProject} =
+               convertNamingFixture(targetNaming);
+           assert.deepStrictEqual(targets._lib.dependencies, [
+             '//a:b_c', '//a_b:c', '//x:y', '//x:y_proxy'
+           ].map(name => `${names[name]}#target`));
+           // Executables and static libraries are built by their proxies.
+           for (const name of ['//a:b_c', '//a_b:c', '//x:y']) {
+             assert.deepStrictEqual(
+                 targets[names[name]].dependencies, [`${names[name]}_proxy`]);
+             assert.ok(targets[`${names[name]}_proxy`], name);
+           }
+           assert.deepStrictEqual(gypProject.validate(), []);
+         });
+    }
+  });
+
+  describe('with source sets', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('builds them as static libraries with empty.cc by default', () => {
+      const gypProject = convertFixture('source_sets.json', config);
+      assert.deepStrictEqual(
+          gypProject.getSubprojects().map(({file}) => file),
+          ['gn_gen.gyp', 'empty.gyp']);
+      const name = gypProject.getGypTargetNames().get('//a:b')!;
+      const proxy = getTargets(gypProject, 'gn')[`${name}_proxy`];
+      assert.strictEqual(proxy.type, 'static_library');
+      assert.deepStrictEqual(
+          proxy.dependencies, ['./empty.gyp:gen_empty_cc#target']);
+      assert.deepStrictEqual(gypProject.validate(), []);
+    });
+
+    it('leaves header-only source sets uncompiled, without empty.gyp', () => {
+      const gypProject = convertFixture(
+          'source_sets.json', Object.assign({sourceSets: 'native'}, config));
+      assert.deepStrictEqual(
+          gypProject.getSubprojects().map(({file}) => file), ['gn_gen.gyp']);
+      const targets = getTargets(gypProject, 'gn');
+      assert.strictEqual(targets.a_b.type, 'none');
+      assert.deepStrictEqual(
+          targets.a_b.direct_dependent_settings,
+          {include_dirs: ['<(root_relative_to_gypfile)/a/include/']});
+      // Targets without proxies don't claim names for them.
+      assert.strictEqual(targets.a_b_proxy.type, 'none');
+      assert.deepStrictEqual(
+          targets._lib.dependencies, ['a_b#target', 'a_b_proxy#target']);
+    });
+  });
+
+  describe('with action_foreach targets', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('translates source expansions to rule variables', () => {
+      const targets =
+          getTargets(convertFixture('action_foreach.json', config), 'gn');
+      assert.strictEqual(targets.protos_gen.actions, undefined);
+      assert.deepStrictEqual(
+          targets.protos_gen.rules, [{
+            rule_name: 'protos_gen_proto_rule',
+            extension: 'proto',
+            inputs: [
+              '<(root_relative_to_gypfile)/tools/helper.py',
+              '<(root_relative_to_gypfile)/tools/run.py'
+            ],
+            outputs:
+                ['<(SHARED_INTERMEDIATE_DIR)/gen/protos/' +
+                 '<(RULE_INPUT_ROOT).pb.cc'],
+            action: [
+              '<(python)', '<(root_relative_to_gypfile)/tools/run.py',
+              '<(RULE_INPUT_PATH)', '--name=<(RULE_INPUT_ROOT)',
+              '--file=<(RULE_INPUT_NAME)', '--dir=<(RULE_INPUT_DIRNAME)',
+              '--gen=<(SHARED_INTERMEDIATE_DIR)/gen/protos',
+              '--out=<(SHARED_INTERMEDIATE_DIR)/obj/protos', '--rel=protos'
+            ]
+          }]);
+    });
+
+    it('falls back to one action per source when a rule can\'t express it',
+       () => {
+         const targets =
+             getTargets(convertFixture('action_foreach.json', config), 'gn');
+         assert.strictEqual(targets.mixed_gen.rules, undefined);
+         assert.deepStrictEqual(targets.mixed_gen.actions, [
+           'a/x', 'b/y'
+         ].map((source, i) => ({
+                 action_name: `mixed_gen_action_${i}`,
+                 inputs: [
+                   '<(root_relative_to_gypfile)/tools/run.py',
+                   `<(root_relative_to_gypfile)/mixed/${source}.proto`
+                 ],
+                 outputs:
+                     [`<(SHARED_INTERMEDIATE_DIR)/gen/mixed/${source}.pb.cc`],
+                 action: [
+                   '<(python)', '<(root_relative_to_gypfile)/tools/run.py',
+                   `<(root_relative_to_gypfile)/mixed/${source}.proto`,
+                   `--gen=<(SHARED_INTERMEDIATE_DIR)/gen/mixed/${
+                       path.posix.dirname(source)}`
+                 ]
+               })));
+       });
+  });
+
+  describe('with action scripts', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    /**
+     * Return the command of each action in the scripts fixture, keyed by GYP
+     * target name.
+     * @param scriptConfig Options that describe how scripts are run.
+     */
+    function getActions(scriptConfig: Partial<GnToGypConfig>) {
+      const targets = getTargets(
+          convertFixture(
+              'scripts.json', Object.assign({}, config, scriptConfig)),
+          'gn');
+      const result: {[name: string]: string[]} = {};
+      for (const name of Object.keys(targets)) {
+        if (targets[name].actions) {
+          result[name] = targets[name].actions![0].action;
+        }
+      }
+      return result;
+    }
+
+    it('runs Python scripts with the python variable by default', () => {
+      assert.deepStrictEqual(getActions({}), {
+        _gen_js: ['<(root_relative_to_gypfile)/tools/gen.js', 'gen/gen_js.h'],
+        _gen_py: [
+          '<(python)', '<(root_relative_to_gypfile)/tools/gen.py',
+          'gen/gen_py.h'
+        ],
+        _gen_sh: ['<(root_relative_to_gypfile)/tools/gen.sh', 'gen/gen_sh.h'],
+        _gen_special: [
+          '<(python)', '<(root_relative_to_gypfile)/tools/special.py',
+          'gen/gen_special.h'
+        ],
+        _wrapped: [
+          '<(python)', '<(root_relative_to_gypfile)/build/run_binary.py',
+          '--stamp=wrapped.stamp', '<(root_relative_to_gypfile)/tools/gen.sh',
+          'gen/wrapped.h'
+        ]
+      });
+    });
+
+    it('runs scripts with interpreters keyed by label or extension', () => {
+      const actions = getActions(
+          {interpreters: {'.js': ['node'], '//tools/special.py': ['python3']}});
+      assert.deepStrictEqual(
+          actions._gen_js,
+          ['node', '<(root_relative_to_gypfile)/tools/gen.js', 'gen/gen_js.h']);
+      assert.deepStrictEqual(actions._gen_special, [
+        'python3', '<(root_relative_to_gypfile)/tools/special.py',
+        'gen/gen_special.h'
+      ]);
+      assert.strictEqual(actions._gen_py[0], '<(python)');
+    });
+
+    it('runs the tools that wrapper scripts run', () => {
+      const actions = getActions(
+          {scriptWrappers: {'//build/run_binary.py': {flags: ['--stamp']}}});
+      assert.deepStrictEqual(
+          actions._wrapped,
+          ['<(root_relative_to_gypfile)/tools/gen.sh', 'gen/wrapped.h']);
+    });
+  });
+
+  describe('with executables', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      toolsets: {
+        '//build/toolchain:host': 'host',
+        '//build/toolchain:target': 'target'
+      },
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('copies each toolset\'s executable to its expected output', () => {
+      const targets =
+          getTargets(convertFixture('executables.json', config), 'gn');
+      const proxy = targets.tools_tool_proxy;
+      assert.strictEqual(proxy.product_name, undefined);
+      assert.deepStrictEqual(
+          proxy.target_conditions!.map(
+              ([condition, fields]) => [condition, fields.product_name]),
+          [['_toolset=="host"', 'tool'], ['_toolset=="target"', 'tool.exe']]);
+      const tool = targets.tools_tool;
+      assert.strictEqual(tool.actions, undefined);
+      assert.deepStrictEqual(tool.target_conditions, [
+        [
+          '_toolset=="host"', {
+            copies: [{
+              destination: '<(SHARED_INTERMEDIATE_DIR)/host',
+              files: ['<(PRODUCT_DIR)/tool']
+            }]
+          }
+        ],
+        [
+          '_toolset=="target"', {
+            copies: [{
+              destination: '<(SHARED_INTERMEDIATE_DIR)',
+              files: ['<(PRODUCT_DIR)/tool.exe']
+            }]
+          }
+        ]
+      ]);
+    });
+  });
+
+  describe('with paths relative to the build directory', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('rewrites explicitly relative paths in flags', () => {
+      const lib = getTargets(convertFixture('flags.json', config), 'gn')._lib;
+      assert.deepStrictEqual(lib.cflags, [
+        '-O2', '--sysroot=<(root_relative_to_gypfile)/sysroot',
+        '-fdebug-prefix-map=../..=.'
+      ]);
+      assert.deepStrictEqual(
+          lib.include_dirs,
+          ['<(root_relative_to_gypfile)/include', '../../../outside']);
+      assert.deepStrictEqual(lib.link_settings!.ldflags, [
+        '-L<(SHARED_INTERMEDIATE_DIR)/lib', '-Wl,-rpath,../../../lib',
+        '--sysroot=../../..', '-Wl,--as-needed'
+      ]);
+    });
+
+    it('rewrites explicitly relative paths in script arguments', () => {
+      const gypProject = convertFixture('flags.json', config);
+      const gen = getTargets(gypProject, 'gn')._gen;
+      assert.deepStrictEqual(gen.actions![0].action, [
+        '<(root_relative_to_gypfile)/tools/gen.sh',
+        '<(root_relative_to_gypfile)/tools/gen.in', '../../../tools/gen.in',
+        'gen.out'
+      ]);
+      assert.deepStrictEqual(
+          gypProject.getUnmatchedScriptArgs(),
+          [{gnTargetName: '//:gen', script: '//tools/gen.sh', arg: 'gen.out'}]);
+    });
+
+    it('passes through and reports paths outside of the project', () => {
+      const gypProject = convertFixture('flags.json', config);
+      assert.deepStrictEqual(
+          gypProject.getOutsideProjectPaths().map(
+              ({gnTargetName, flag}) => `${gnTargetName}: ${flag}`),
+          [
+            '//:gen: ../../../tools/gen.in', '//:lib: -I../../../outside',
+            '//:lib: -Wl,-rpath,../../../lib', '//:lib: --sysroot=../../..'
+          ]);
+    });
+  });
+
+  describe('with fields that differ across builds', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('hoists elements of unordered fields common to every build', () => {
+      const lib =
+          getTargets(convertFixture('configurations.json', config), 'gn')._lib;
+      assert.deepStrictEqual(lib.defines, ['COMMON']);
+      assert.deepStrictEqual(lib.configurations!.Debug.defines, ['DEBUG']);
+      assert.deepStrictEqual(lib.configurations!.Release.defines, ['NDEBUG']);
+    });
+
+    it('leaves assembler flags out of cflags', () => {
+      const gypProject = convertFixture('configurations.json', config);
+      const lib = getTargets(gypProject, 'gn')._lib;
+      assert.deepStrictEqual(lib.cflags, ['-O2']);
+      assert.deepStrictEqual(
+          gypProject.getIgnoredAsmFlags().map(({flags}) => flags),
+          [['-x', 'assembler-with-cpp'], ['-x', 'assembler-with-cpp']]);
+    });
+
+    it('keeps include directories whole, in order', () => {
+      const lib =
+          getTargets(convertFixture('configurations.json', config), 'gn')._lib;
+      assert.strictEqual(lib.include_dirs, undefined);
+      assert.deepStrictEqual(lib.configurations!.Debug.include_dirs, [
+        '<(root_relative_to_gypfile)/a/', '<(root_relative_to_gypfile)/b/',
+        '<(root_relative_to_gypfile)/c/'
+      ]);
+      assert.deepStrictEqual(lib.configurations!.Release.include_dirs, [
+        '<(root_relative_to_gypfile)/a/', '<(root_relative_to_gypfile)/x/',
+        '<(root_relative_to_gypfile)/c/'
+      ]);
+    });
+  });
+
+  describe('with public and all-dependent configs', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('translates them into dependent settings', () => {
+      const lib =
+          getTargets(convertFixture('dependent_settings.json', config), 'gn')
+              ._lib;
+      assert.deepStrictEqual(lib.direct_dependent_settings, {
+        include_dirs: ['<(root_relative_to_gypfile)/include/'],
+        defines: ['LIB_PUBLIC'],
+        cflags: ['-Wno-foo'],
+        xcode_settings:
+            {OTHER_CFLAGS: ['-Wno-foo'], OTHER_CPLUSPLUSFLAGS: ['-Wno-foo']}
+      });
+      assert.deepStrictEqual(
+          lib.all_dependent_settings, {defines: ['LIB_ALL']});
+      assert.deepStrictEqual(lib.defines, []);
+    });
+
+    it('exports the settings of proxied targets to their dependents', () => {
+      const targets =
+          getTargets(convertFixture('dependent_settings.json', config), 'gn');
+      assert.deepStrictEqual(targets._dep_proxy.direct_dependent_settings, {
+        include_dirs: [
+          '<(root_relative_to_gypfile)/dep/include/',
+          '<(SHARED_INTERMEDIATE_DIR)/gen/dep/'
+        ],
+        defines: ['DEP', 'DEP_EXTRA']
+      });
+      assert.deepStrictEqual(targets._lib.dependencies, ['_dep#target']);
+      assert.deepStrictEqual(targets._dep.dependencies, ['_dep_proxy']);
+      assert.deepStrictEqual(
+          targets._dep.export_dependent_settings, ['_dep_proxy']);
+    });
+  });
+
+  describe('with linker inputs', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('translates them into link_settings of the target that builds them',
+       () => {
+         const targets =
+             getTargets(convertFixture('link_settings.json', config), 'gn');
+         assert.deepStrictEqual(
+             targets._lib.link_settings, {libraries: ['-lm']});
+         assert.strictEqual(targets._dep.link_settings, undefined);
+         assert.deepStrictEqual(targets._dep_proxy.link_settings, {
+           libraries: [
+             '-lz', '<(root_relative_to_gypfile)/third_party/libfoo.a',
+             'libbar.so'
+           ],
+           library_dirs: [
+             '<(root_relative_to_gypfile)/third_party/lib/', '/usr/local/lib'
+           ],
+           ldflags: ['-Wl,--as-needed'],
+           xcode_settings: {OTHER_LDFLAGS: ['-framework', 'Foundation']}
+         });
+       });
+  });
+
+  describe('with excluded targets', () => {
+    const config: GnToGypConfig = {
+      rootTarget: '//:lib',
+      exclude: {
+        targets: ['//third_party:*'],
+        exceptTargets: ['//third_party:icu'],
+        testonly: true
+      },
+      subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+    };
+
+    it('leaves them and their dependencies out', () => {
+      const gypProject = convertFixture('exclusion.json', config);
+      assert.deepStrictEqual(
+          Array.from(gypProject.getGypTargetNames().keys()).sort(),
+          ['//:lib', '//third_party:icu']);
+      const targets = getTargets(gypProject, 'gn');
+      assert.deepStrictEqual(
+          targets._lib.dependencies, ['third_party_icu#target']);
+      assert.deepStrictEqual(gypProject.validate(), []);
+    });
+
+    it('reports the dependencies that were cut', () => {
+      const gypProject = convertFixture('exclusion.json', config);
+      assert.deepStrictEqual(gypProject.getExcludedDependencies(), [
+        {
+          from: '//:lib',
+          to: '//:lib_unittests',
+          build: 'debug',
+          toolchain: '//build/toolchain:target'
+        },
+        {
+          from: '//:lib',
+          to: '//third_party:zlib',
+          build: 'debug',
+          toolchain: '//build/toolchain:target'
+        }
+      ]);
+    });
+
+    it('includes them in the GN graph, with dashed edges', () => {
+      const gnGraphs = convertFixture('exclusion.json', config).getGnGraphs();
+      assert.deepStrictEqual(gnGraphs.map(graph => graph.name), ['debug']);
+      const lib = '"//:lib(//build/toolchain:target)"';
+      const unittests = '"//:lib_unittests(//build/toolchain:target)"';
+      const icu = '"//third_party:icu(//build/toolchain:target)"';
+      const zlib = '"//third_party:zlib(//build/toolchain:target)"';
+      assert.strictEqual(toDot(gnGraphs[0]), [
+        'digraph "debug" {', '  node [shape=box];',
+        '  subgraph "cluster_//build/toolchain:target" {',
+        '    label="//build/toolchain:target";', `    ${lib} [label="//:lib"];`,
+        `    ${
+            unittests} [label="//:lib_unittests", style=dashed, color=gray];`,
+        `    ${icu} [label="//third_party:icu"];`,
+        `    ${zlib} [label="//third_party:zlib", style=dashed, color=gray];`,
+        '  }', `  ${lib} -> ${unittests} [style=dashed];`,
+        `  ${lib} -> ${icu};`, `  ${lib} -> ${zlib} [style=dashed];`, '}', ''
+      ].join('\n'));
+    });
+
+    it('leaves them out of the GYP graph, highlighting proxies', () => {
+      const gypGraph = JSON.parse(
+          toJson(convertFixture('exclusion.json', config).getGypGraph()));
+      assert.deepStrictEqual(gypGraph, {
+        name: 'gyp',
+        nodes: {
+          'gn_gen.gyp:_lib': {label: '_lib', cluster: 'gn'},
+          'gn_gen.gyp:third_party_icu':
+              {label: 'third_party_icu', cluster: 'gn', proxy: true},
+          'gn_gen.gyp:third_party_icu_proxy':
+              {label: 'third_party_icu_proxy', cluster: 'gn'}
+        },
+        adjacency: {
+          'gn_gen.gyp:_lib': ['gn_gen.gyp:third_party_icu'],
+          'gn_gen.gyp:third_party_icu': ['gn_gen.gyp:third_party_icu_proxy'],
+          'gn_gen.gyp:third_party_icu_proxy': []
+        }
+      });
+    });
+  });
+});
+
+describe('GypProject#toGypFile', () => {
+  const config: GnToGypConfig = {
+    rootTarget: '//:lib',
+    subprojects: [{name: 'gn', file: 'gn_gen.gyp', targets: ['//*']}]
+  };
+
+  it('writes Python literals equivalent to the JSON style', () => {
+    const gypProject = convertFixture('link_settings.json', config);
+    const python = gypProject.toGypFile('gn', {style: 'python'});
+    assert.ok(python.startsWith(
+        '# This file is automatically generated -- do not edit!\n{\n' +
+        '  \'variables\': {\n'));
+    assert.strictEqual(python.indexOf('"'), -1);
+    assert.strictEqual(python.indexOf('# Generated from'), -1);
+    assert.deepStrictEqual(
+        parseGypFile(python), parseGypFile(gypProject.toGypFile('gn')));
+  });
+
+  it('precedes each target with the GN target and builds it came from', () => {
+    const python = convertFixture('link_settings.json', config)
+                       .toGypFile('gn', {style: 'python', comments: true});
+    const comments =
+        python.split('\n').filter(line => line.trim().startsWith('#')).slice(1);
+    assert.deepStrictEqual(comments, [
+      '    # Generated from //:dep (debug)',
+      '    # Generated from //:dep (debug)',
+      '    # Generated from //:lib (debug)'
+    ]);
+    assert.ok(
+        python.indexOf(
+            '    # Generated from //:dep (debug)\n    {\n' +
+            '      \'target_name\': \'_dep_proxy\',\n') !== -1,
+        python);
+  });
+});
+
+describe('GypProject#validate', () => {
+  /**
+   * Return a GYP project made of the given targets, keyed by file. This lets
+   * validation be checked against targets that conversion doesn't produce.
+   * @param files The targets in each GYP file.
+   */
+  function fromGypTargets(files: {[file: string]: GypTarget[]}): GypProject {
+    const gypProject = new GypProject();
+    gypProject['data'] = Object.keys(files).map(
+        file => ({name: file, file, targets: files[file]}));
+    return gypProject;
+  }
+
+  /**
+   * Return the kinds of the issues found in a GYP project.
+   * @param gypProject The GYP project.
+   */
+  function getIssueKinds(gypProject: GypProject): string[] {
+    return gypProject.validate().map(({kind}) => kind);
+  }
+
+  it('accepts valid targets', () => {
+    assert.deepStrictEqual(
+        getIssueKinds(fromGypTargets({
+          'a.gyp': [
+            {target_name: 'a', type: 'none', dependencies: ['b.gyp:b']},
+            {target_name: 'c', type: 'none', toolsets: ['host', 'target']}
+          ],
+          'b.gyp':
+              [{target_name: 'b', type: 'none', dependencies: ['a.gyp:c']}]
+        })),
+        []);
+  });
+
+  it('reports duplicate target names', () => {
+    assert.deepStrictEqual(
+        getIssueKinds(fromGypTargets({
+          'a.gyp': [
+            {target_name: 'a', type: 'none'},
+            {target_name: 'a', type: 'none'}
+          ]
+        })),
+        ['duplicate-target']);
+  });
+
+  it('reports dependencies on targets that don\'t exist', () => {
+    assert.deepStrictEqual(
+        getIssueKinds(fromGypTargets({
+          'a.gyp':
+              [{target_name: 'a', type: 'none', dependencies: ['b.gyp:b']}]
+        })),
+        ['dangling-dependency']);
+  });
+
+  it('reports dependencies on toolsets that aren\'t built', () => {
+    assert.deepStrictEqual(
+        getIssueKinds(fromGypTargets({
+          'a.gyp': [
+            {
+              target_name: 'a',
+              type: 'none',
+              toolsets: ['host', 'target'],
+              dependencies: ['b']
+            },
+            {target_name: 'b', type: 'none', toolsets: ['target']}
+          ]
+        })),
+        ['toolset-mismatch']);
+  });
+
+  it('reports dependencies under target_conditions', () => {
+    const issues =
+        fromGypTargets({
+          'a.gyp': [
+            {
+              target_name: 'a',
+              type: 'none',
+              target_conditions: [[
+                '_toolset=="target"', {
+                  conditions: [
+                    ['gn_configuration=="Debug"', {dependencies: ['b']}]
+                  ]
+                }
+              ]]
+            },
+            {target_name: 'b', type: 'none'}
+          ]
+        }).validate();
+    assert.deepStrictEqual(issues, [{
+                             kind: 'ignored-dependency',
+                             message: 'a.gyp:a depends on b under ' +
+                                 'target_conditions, where gyp ignores them'
+                           }]);
+  });
+
+  it('reports dependency cycles', () => {
+    assert.deepStrictEqual(
+        getIssueKinds(fromGypTargets({
+          'a.gyp': [
+            {target_name: 'a', type: 'none', dependencies: ['b']},
+            {target_name: 'b', type: 'none', dependencies: ['a']}
+          ]
+        })),
+        ['dependency-cycle']);
+  });
+
+  it('reports outputs produced by more than one target', () => {
+    const action = {
+      action_name: 'gen',
+      inputs: [],
+      outputs: ['<(SHARED_INTERMEDIATE_DIR)/gen.h'],
+      action: ['touch', '<@(_outputs)']
+    };
+    assert.deepStrictEqual(
+        getIssueKinds(fromGypTargets({
+          'a.gyp': [
+            {target_name: 'a', type: 'none', actions: [action]}, {
+              target_name: 'b',
+              type: 'none',
+              copies: [{
+                destination: '<(SHARED_INTERMEDIATE_DIR)',
+                files: ['gen.h']
+              }]
+            }
+          ]
+        })),
+        ['duplicate-output']);
+  });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+
+import {parseGypFile, parseGypLiteral} from '../src/parser';
+import {formatGypFile} from '../src/printer';
+
+const GYP = {
+  variables: {'python%': 'python', 'enabled%': 1},
+  targets: [
+    {
+      target_name: 'lib',
+      type: 'static_library',
+      toolsets: ['target', 'host'],
+      dependencies: ['gen'],
+      defines: ['QUOTE=\'a\'', 'BACKSLASH=a\\b', 'NEWLINE=a\nb'],
+      sources: ['lib.cc'],
+      direct_dependent_settings: {include_dirs: ['include']},
+      conditions: [
+        ['OS=="mac"', {defines: ['MAC']}, {defines: ['NOT_MAC']}],
+      ],
+      hard_dependency: true,
+      msvs_settings: null
+    },
+    {
+      target_name: 'gen',
+      type: 'none',
+      actions: [{
+        action_name: 'gen',
+        inputs: [],
+        outputs: ['<(SHARED_INTERMEDIATE_DIR)/gen.cc'],
+        action: ['<(python)', 'gen.py', '-o', '<@(_outputs)']
+      }]
+    }
+  ]
+};
+
+describe('parseGypLiteral', () => {
+  it('parses Python literals', () => {
+    assert.deepStrictEqual(
+        parseGypLiteral(`{'a': [1, -2, True, False, None], "b": 'c' 'd'}`),
+        {a: [1, -2, true, false, null], b: 'cd'});
+  });
+
+  it('accepts comments and trailing commas', () => {
+    assert.deepStrictEqual(
+        parseGypLiteral(`# A comment.
+{
+  'a': [
+    'b',  # Another comment.
+    'c',
+  ],
+}
+`),
+        {a: ['b', 'c']});
+  });
+
+  it('reports where errors occur', () => {
+    assert.throws(
+        () => parseGypLiteral('{\n  \'a\': [,\n}', 'a.gyp'),
+        /^Error: a\.gyp:2:/);
+  });
+});
+
+describe('parseGypFile', () => {
+  it('rejects files that don\'t contain a dictionary', () => {
+    assert.throws(() => parseGypFile('[]'), /must contain a dictionary/);
+  });
+
+  it('rejects targets without names', () => {
+    assert.throws(
+        () => parseGypFile(`{'targets': [{'type': 'none'}]}`),
+        /targets must be a list of dictionaries with target_name/);
+  });
+
+  it('parses what formatGypFile prints', () => {
+    assert.deepStrictEqual(parseGypFile(formatGypFile(GYP, 'A header')), GYP);
+  });
+
+  it('parses what formatGypFile prints with target comments', () => {
+    const printed = formatGypFile(
+        GYP, 'A header', (target) => [`From ${target.target_name}`, 'Debug']);
+    assert.ok(printed.indexOf('    # From lib\n    # Debug\n') !== -1);
+    assert.deepStrictEqual(parseGypFile(printed), GYP);
+  });
+
+  it('parses what formatGypFile prints with well-known keys first', () => {
+    const printed = formatGypFile(GYP, 'A header');
+    const lib = printed.split('\n')
+                    .filter(line => line.startsWith('      \''))
+                    .slice(0, 10)
+                    .map(line => line.trim().split(':')[0]);
+    assert.deepStrictEqual(lib, [
+      '\'target_name\'', '\'type\'', '\'toolsets\'', '\'hard_dependency\'',
+      '\'dependencies\'', '\'defines\'', '\'sources\'',
+      '\'direct_dependent_settings\'', '\'conditions\'', '\'msvs_settings\''
+    ]);
+    assert.deepStrictEqual(parseGypFile(printed), GYP);
+  });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+
+import {compareStrings, diffLines} from '../src/util';
+
+describe('compareStrings', () => {
+  it('orders strings by code unit, regardless of locale', () => {
+    assert.deepStrictEqual(
+        ['b', '_a', 'B', 'a', 'A_', 'A'].sort(compareStrings),
+        ['A', 'A_', 'B', '_a', 'a', 'b']);
+  });
+});
+
+describe('diffLines', () => {
+  it('marks unchanged, removed and added lines', () => {
+    assert.deepStrictEqual(
+        diffLines(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e']),
+        [' a', '-b', '+x', ' c', ' d', '+e']);
+  });
+
+  it('keeps as many lines unchanged as possible', () => {
+    const diff = diffLines(
+        ['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+    assert.strictEqual(diff.filter(line => line.startsWith(' ')).length, 4);
+    assert.deepStrictEqual(
+        diff.filter(line => !line.startsWith('+')).map(line => line.slice(1)),
+        ['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+    assert.deepStrictEqual(
+        diff.filter(line => !line.startsWith('-')).map(line => line.slice(1)),
+        ['c', 'b', 'a', 'b', 'a', 'c']);
+  });
+
+  it('handles empty and entirely different inputs', () => {
+    assert.deepStrictEqual(diffLines([], []), []);
+    assert.deepStrictEqual(diffLines(['a'], []), ['-a']);
+    assert.deepStrictEqual(diffLines(['a', 'b'], ['c']), ['-a', '-b', '+c']);
+  });
+
+  it('diffs long inputs', () => {
+    const lines = Array.from({length: 50000}, (_, i) => `line ${i}`);
+    const changed = lines.map((line, i) => i % 1000 === 0 ? `${line}!` : line);
+    assert.strictEqual(
+        diffLines(lines, changed).filter(line => line.startsWith('+')).length,
+        50);
+  });
+});